@@ -0,0 +1,82 @@
+import {
+  parseClock,
+  formatClock,
+  parseEvaluation,
+  formatEvaluation,
+  parseArrows,
+  formatArrows,
+  parseHighlights,
+  formatHighlights,
+} from "./annotations";
+
+describe("Command annotations", () => {
+  describe("clock", () => {
+    it("should parse clock times to seconds", () => {
+      expect(parseClock("0:03:12")).toBe(192);
+      expect(parseClock("1:30:00")).toBe(5400);
+      expect(parseClock("0:09:59.9")).toBeCloseTo(599.9);
+      expect(parseClock("1:05")).toBe(65);
+      expect(parseClock("later")).toBeNull();
+    });
+
+    it("should format seconds as clock times", () => {
+      expect(formatClock(192)).toBe("0:03:12");
+      expect(formatClock(5400)).toBe("1:30:00");
+      expect(formatClock(599.9)).toBe("0:09:59.9");
+      expect(formatClock(59.9996)).toBe("0:01:00");
+      expect(formatClock(3599.9999)).toBe("1:00:00");
+      expect(formatClock(0.005)).toBe("0:00:00.005");
+      expect(() => formatClock(-1)).toThrow("Invalid clock time");
+    });
+  });
+
+  describe("evaluation", () => {
+    it("should parse scores and mates", () => {
+      expect(parseEvaluation(["+0.45"])).toEqual({
+        type: "pawns",
+        value: 0.45,
+      });
+      expect(parseEvaluation(["#-3", "20"])).toEqual({
+        type: "mate",
+        value: -3,
+        depth: 20,
+      });
+      expect(parseEvaluation(["?"])).toBeNull();
+    });
+
+    it("should format evaluations", () => {
+      const score = formatEvaluation({ type: "pawns", value: -1.2 });
+      const mate = formatEvaluation({ type: "mate", value: 2, depth: 30 });
+      expect(score).toEqual(["-1.2"]);
+      expect(mate).toEqual(["#2", "30"]);
+    });
+  });
+
+  describe("arrows and highlights", () => {
+    it("should parse arrows, skipping malformed entries", () => {
+      expect(parseArrows(["Ge2e4", "Xa1a2", "Rd8d1"])).toEqual([
+        { from: "e2", to: "e4", color: "green" },
+        { from: "d8", to: "d1", color: "red" },
+      ]);
+    });
+
+    it("should parse highlights", () => {
+      expect(parseHighlights(["Yd5", "Bh8"])).toEqual([
+        { square: "d5", color: "yellow" },
+        { square: "h8", color: "blue" },
+      ]);
+    });
+
+    it("should format arrows and highlights", () => {
+      expect(formatArrows([{ from: "g1", to: "f3", color: "blue" }])).toEqual([
+        "Bg1f3",
+      ]);
+      expect(formatHighlights([{ square: "e4", color: "red" }])).toEqual([
+        "Re4",
+      ]);
+      expect(() =>
+        formatHighlights([{ square: "i9", color: "red" }])
+      ).toThrow("Invalid square");
+    });
+  });
+});
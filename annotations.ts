@@ -0,0 +1,193 @@
+/** Colors of the arrows and highlighted squares drawn by [%cal] and [%csl] */
+export type AnnotationColor = "green" | "red" | "yellow" | "blue";
+
+/** An arrow drawn on the board, as in [%cal Ge2e4] */
+export type Arrow = {
+  from: string;
+  to: string;
+  color: AnnotationColor;
+};
+
+/** A highlighted square, as in [%csl Rd5] */
+export type Highlight = {
+  square: string;
+  color: AnnotationColor;
+};
+
+/**
+ * An engine evaluation, as in [%eval 0.45,20] or [%eval #-3]: a score in
+ * pawns, or the number of moves to mate, from white's point of view
+ */
+export type Evaluation = {
+  type: "pawns" | "mate";
+  value: number;
+  /** Search depth, if the annotation has one */
+  depth?: number;
+};
+
+/** Color letters used by [%cal] and [%csl] */
+const COLOR_LETTERS: Record<string, AnnotationColor> = {
+  G: "green",
+  R: "red",
+  Y: "yellow",
+  B: "blue",
+};
+
+/** Matches a board square */
+const SQUARE = /^[a-h][1-8]$/;
+
+/** Matches an entry of [%cal], such as "Ge2e4" */
+const ARROW = /^([GRYB])([a-h][1-8])([a-h][1-8])$/;
+
+/** Matches an entry of [%csl], such as "Rd5" */
+const HIGHLIGHT = /^([GRYB])([a-h][1-8])$/;
+
+/**
+ * Parses a clock time such as "0:03:12" or "1:59.9"
+ * @param value - Hours, minutes and seconds separated by colons
+ * @returns The time in seconds, or null if the value is not a clock time
+ */
+export function parseClock(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const [hours, minutes] = match[2] ? [match[1], match[2]] : [null, match[1]];
+  return (
+    parseInt(hours || "0", 10) * 3600 +
+    parseInt(minutes || "0", 10) * 60 +
+    parseFloat(match[3])
+  );
+}
+
+/**
+ * Formats a time as [%clk] and [%emt] write it
+ * @param seconds - The time in seconds
+ * @returns The time as "h:mm:ss", with tenths or milliseconds if it has them
+ * @throws Error if the time is negative or not a number
+ */
+export function formatClock(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw Error("Invalid clock time: " + seconds);
+  }
+  // rounded first, so that the seconds cannot round up to 60
+  const ms = Math.round(seconds * 1000);
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const whole = Math.floor((ms % 60000) / 1000);
+  const fraction = String((ms % 1000) / 1000).slice(1);
+
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${hours}:${pad(minutes)}:${pad(whole)}${fraction}`;
+}
+
+/**
+ * Parses the values of an [%eval] command
+ * @param values - The score, optionally followed by the depth
+ * @returns The evaluation, or null if the score is not a number
+ */
+export function parseEvaluation(values: Array<string>): Evaluation | null {
+  const score = (values[0] || "").trim();
+  const mate = score.startsWith("#");
+  const value = Number(mate ? score.slice(1) : score);
+  if (!score || Number.isNaN(value)) return null;
+
+  const evaluation: Evaluation = { type: mate ? "mate" : "pawns", value };
+  const depth = parseInt(values[1], 10);
+  if (!Number.isNaN(depth)) evaluation.depth = depth;
+  return evaluation;
+}
+
+/**
+ * Formats an evaluation as the values of an [%eval] command
+ * @param evaluation - The evaluation
+ * @returns The score, followed by the depth if there is one
+ * @throws Error if the value is not a number
+ */
+export function formatEvaluation(evaluation: Evaluation): Array<string> {
+  if (!Number.isFinite(evaluation.value)) {
+    throw Error("Invalid evaluation: " + evaluation.value);
+  }
+  const score = (evaluation.type === "mate" ? "#" : "") + evaluation.value;
+  return evaluation.depth === undefined
+    ? [score]
+    : [score, String(evaluation.depth)];
+}
+
+/**
+ * Gets the color letter of an annotation color
+ * @param color - The color name
+ * @returns The letter, such as "G"
+ * @throws Error if the color is not recognized
+ */
+function toColorLetter(color: AnnotationColor): string {
+  const letter = Object.keys(COLOR_LETTERS).find(
+    (key) => COLOR_LETTERS[key] === color
+  );
+  if (!letter) {
+    throw Error("Invalid annotation color: " + color);
+  }
+  return letter;
+}
+
+/**
+ * Parses the values of a [%cal] command, skipping malformed entries
+ * @param values - Entries such as "Ge2e4"
+ * @returns The arrows
+ */
+export function parseArrows(values: Array<string>): Array<Arrow> {
+  const arrows: Array<Arrow> = [];
+  for (const value of values) {
+    const match = value.trim().match(ARROW);
+    if (match) {
+      const color = COLOR_LETTERS[match[1]];
+      arrows.push({ from: match[2], to: match[3], color });
+    }
+  }
+  return arrows;
+}
+
+/**
+ * Formats arrows as the values of a [%cal] command
+ * @param arrows - The arrows
+ * @returns Entries such as "Ge2e4"
+ * @throws Error if a square or a color is invalid
+ */
+export function formatArrows(arrows: Array<Arrow>): Array<string> {
+  return arrows.map((arrow) => {
+    if (!SQUARE.test(arrow.from) || !SQUARE.test(arrow.to)) {
+      throw Error(`Invalid arrow: ${arrow.from}-${arrow.to}`);
+    }
+    return toColorLetter(arrow.color) + arrow.from + arrow.to;
+  });
+}
+
+/**
+ * Parses the values of a [%csl] command, skipping malformed entries
+ * @param values - Entries such as "Rd5"
+ * @returns The highlighted squares
+ */
+export function parseHighlights(values: Array<string>): Array<Highlight> {
+  const highlights: Array<Highlight> = [];
+  for (const value of values) {
+    const match = value.trim().match(HIGHLIGHT);
+    if (match) {
+      highlights.push({ square: match[2], color: COLOR_LETTERS[match[1]] });
+    }
+  }
+  return highlights;
+}
+
+/**
+ * Formats highlighted squares as the values of a [%csl] command
+ * @param highlights - The highlighted squares
+ * @returns Entries such as "Rd5"
+ * @throws Error if a square or a color is invalid
+ */
+export function formatHighlights(highlights: Array<Highlight>): Array<string> {
+  return highlights.map((highlight) => {
+    if (!SQUARE.test(highlight.square)) {
+      throw Error("Invalid square: " + highlight.square);
+    }
+    return toColorLetter(highlight.color) + highlight.square;
+  });
+}
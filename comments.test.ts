@@ -0,0 +1,202 @@
+import type { ParsedPGN, Rav } from "pgn-parser";
+import {
+  getCommentText,
+  findCommand,
+  setCommand,
+  splitCommands,
+  separateCommentCommands,
+  formatComment,
+  extractVariationComments,
+  attachVariationComments,
+} from "./comments";
+
+describe("Comments", () => {
+  describe("getCommentText", () => {
+    it("should read plain and parsed comments", () => {
+      expect(getCommentText("Best by test")).toBe("Best by test");
+      expect(getCommentText({ text: "Best by test" })).toBe("Best by test");
+    });
+
+    it("should return null for command comments", () => {
+      const comment = { commands: [{ key: "clk", values: ["0:03:12"] }] };
+      expect(getCommentText(comment)).toBeNull();
+    });
+  });
+
+  describe("findCommand", () => {
+    it("should find a command among the comments", () => {
+      const comments = [
+        { text: "Best by test" },
+        {
+          commands: [
+            { key: "eval", values: ["0.45"] },
+            { key: "clk", values: ["0:03:12"] },
+          ],
+        },
+      ];
+      expect(findCommand(comments, "clk")).toEqual({
+        key: "clk",
+        values: ["0:03:12"],
+      });
+      expect(findCommand(comments, "emt")).toBeUndefined();
+    });
+  });
+
+  describe("setCommand", () => {
+    const comments = [
+      { text: "Best by test" },
+      {
+        commands: [
+          { key: "eval", values: ["0.45"] },
+          { key: "clk", values: ["0:03:12"] },
+        ],
+      },
+    ];
+
+    it("should replace a command, keeping the text", () => {
+      expect(setCommand(comments, "clk", ["0:03:00"])).toEqual([
+        { text: "Best by test" },
+        {
+          commands: [
+            { key: "eval", values: ["0.45"] },
+            { key: "clk", values: ["0:03:00"] },
+          ],
+        },
+      ]);
+    });
+
+    it("should add a command comment if there is none", () => {
+      expect(setCommand(["Theory"], "csl", ["Gd4"])).toEqual([
+        "Theory",
+        { commands: [{ key: "csl", values: ["Gd4"] }] },
+      ]);
+    });
+
+    it("should remove a command and empty command comments", () => {
+      const withoutClock = setCommand(comments, "clk", null);
+      const removed = setCommand(withoutClock, "eval", null);
+      expect(removed).toEqual([{ text: "Best by test" }]);
+      expect(comments[1]).toEqual({
+        commands: [
+          { key: "eval", values: ["0.45"] },
+          { key: "clk", values: ["0:03:12"] },
+        ],
+      });
+    });
+  });
+
+  describe("splitCommands", () => {
+    it("should split commands from the text of a comment", () => {
+      const comment = { text: "[%clk 0:01:00] [%cal Ge2e4, Rd7d5] Ok" };
+      expect(splitCommands(comment)).toEqual([
+        {
+          commands: [
+            { key: "clk", values: ["0:01:00"] },
+            { key: "cal", values: ["Ge2e4", "Rd7d5"] },
+          ],
+        },
+        { text: "Ok" },
+      ]);
+    });
+
+    it("should keep comments without commands", () => {
+      expect(splitCommands({ text: "[Not a command]" })).toEqual([
+        { text: "[Not a command]" },
+      ]);
+    });
+  });
+
+  describe("separateCommentCommands", () => {
+    it("should split the comments of moves in variations", () => {
+      const move = { move: "c5", comments: ["Sharp [%eval 0.3]"] };
+      const game: ParsedPGN = {
+        comments_above_header: null,
+        headers: null,
+        comments: null,
+        moves: [
+          { move: "e4", comments: [], ravs: [{ moves: [move], result: null }] },
+        ],
+        result: "*",
+      };
+
+      separateCommentCommands([game]);
+
+      expect(move.comments).toEqual([
+        { commands: [{ key: "eval", values: ["0.3"] }] },
+        { text: "Sharp" },
+      ]);
+    });
+  });
+
+  describe("formatComment", () => {
+    it("should format text comments", () => {
+      expect(formatComment("Best by test")).toBe("{Best by test}");
+      expect(formatComment({ text: "Theory" })).toBe("{Theory}");
+    });
+
+    it("should write texts holding a closing brace as line comments", () => {
+      expect(formatComment({ text: "Not {this} one" })).toBe(";Not {this} one");
+      expect(formatComment("Two\nlines}")).toBe("{Two\nlines}");
+    });
+
+    it("should format command comments", () => {
+      const comment = {
+        commands: [
+          { key: "eval", values: ["0.45"] },
+          { key: "csl", values: ["Ge4", "Rd5"] },
+        ],
+      };
+      expect(formatComment(comment)).toBe("{[%eval 0.45] [%csl Ge4,Rd5]}");
+    });
+  });
+
+  describe("extractVariationComments", () => {
+    it("should remove comments at the start of variations", () => {
+      const extracted = extractVariationComments(
+        "1. e4 (1. d4 d5) ({English} { Flank } 1. c4 e5) e5 ( {Sicilian} 1... c5) *"
+      );
+      expect(extracted.pgn).toBe("1. e4 (1. d4 d5) ( 1. c4 e5) e5 ( 1... c5) *");
+      expect(extracted.comments).toEqual([[], ["English", " Flank "], ["Sicilian"]]);
+    });
+
+    it("should ignore parentheses in comments and headers", () => {
+      const pgn = '[Event "Open (A)"]\n\n1. e4 {(not a variation)} e5 *';
+      const extracted = extractVariationComments(pgn);
+      expect(extracted.pgn).toBe(pgn);
+      expect(extracted.comments).toEqual([]);
+    });
+
+    it("should skip escaped quotes in tag values", () => {
+      const pgn = '[Event "5\\" (board"]\n\n1. e4 ({Note} 1. d4) e5 *';
+      const extracted = extractVariationComments(pgn);
+      expect(extracted.pgn).toBe(
+        '[Event "5\\" (board"]\n\n1. e4 ( 1. d4) e5 *'
+      );
+      expect(extracted.comments).toEqual([["Note"]]);
+    });
+  });
+
+  describe("attachVariationComments", () => {
+    it("should attach comments in depth-first order", () => {
+      const nested: Rav = { moves: [{ move: "c4", comments: [] }], result: null };
+      const first: Rav = {
+        moves: [{ move: "d4", comments: [], ravs: [nested] }],
+        result: null,
+      };
+      const second: Rav = { moves: [{ move: "Nf3", comments: [] }], result: null };
+      const game: ParsedPGN = {
+        comments_above_header: null,
+        headers: null,
+        comments: null,
+        moves: [{ move: "e4", comments: [], ravs: [first, second] }],
+        result: "*",
+      };
+
+      attachVariationComments([game], [["first"], ["nested"], []]);
+
+      expect(first.comments_before_moves).toEqual(["first"]);
+      expect(nested.comments_before_moves).toEqual(["nested"]);
+      expect(second.comments_before_moves).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import type { ParsedPGN, Move } from "pgn-parser";
+
+import PGNLexer from "./lexer";
+
+declare module "pgn-parser" {
+  interface Rav {
+    /** Comments written at the start of the variation, before its first move */
+    comments_before_moves?: string[];
+  }
+}
+
+/** A command annotation embedded in a comment, such as [%clk 0:03:12] */
+export type CommentCommand = {
+  key: string;
+  values: Array<string>;
+};
+
+/** Matches a command annotation written in a comment, such as [%clk 0:03:12] */
+const COMMAND = /\[%(\w+)\s+([^\]]*)\]\s*/g;
+
+/** A move comment as produced by pgn-parser: plain text or commands */
+export type MoveComment =
+  | string
+  | { text: string }
+  | { commands: Array<CommentCommand> };
+
+/**
+ * Gets the text of a move comment
+ * @param comment - The comment as stored on the move
+ * @returns The text, or null for a comment holding only commands
+ */
+export function getCommentText(comment: MoveComment): string | null {
+  if (typeof comment === "string") return comment;
+  if ("text" in comment) return comment.text;
+  return null;
+}
+
+/**
+ * Finds a command annotation in the comments of a move
+ * @param comments - The comments as stored on the move
+ * @param key - The command name, such as "clk"
+ * @returns The first command with this name, or undefined
+ */
+export function findCommand(
+  comments: Array<MoveComment>,
+  key: string
+): CommentCommand | undefined {
+  for (const comment of comments) {
+    if (typeof comment === "string" || !("commands" in comment)) continue;
+    const command = comment.commands.find((c) => c.key === key);
+    if (command) return command;
+  }
+  return undefined;
+}
+
+/**
+ * Sets a command annotation in the comments of a move, replacing every
+ * command with the same name
+ * @param comments - The comments as stored on the move
+ * @param key - The command name, such as "clk"
+ * @param values - The values of the command, null to remove it
+ * @returns The updated comments; text comments are left as they are
+ */
+export function setCommand(
+  comments: Array<MoveComment>,
+  key: string,
+  values: Array<string> | null
+): Array<MoveComment> {
+  const updated: Array<MoveComment> = [];
+  let target: { commands: Array<CommentCommand> } | undefined;
+
+  for (const comment of comments) {
+    if (typeof comment === "string" || !("commands" in comment)) {
+      updated.push(comment);
+      continue;
+    }
+    // a comment holding only this command is dropped
+    const commands = comment.commands.filter((c) => c.key !== key);
+    if (commands.length) {
+      const kept = { commands };
+      updated.push(kept);
+      target = target || kept;
+    }
+  }
+
+  if (values) {
+    const command = { key, values };
+    if (target) target.commands.push(command);
+    else updated.push({ commands: [command] });
+  }
+  return updated;
+}
+
+/**
+ * Formats a move comment as PGN. Braces cannot be escaped inside a brace
+ * comment, so a text holding "}" is written as a rest-of-line comment
+ * starting with ";" instead, which has to be followed by a line break;
+ * if the text spans several lines, its closing braces are dropped.
+ * @param comment - The comment as stored on the move
+ * @returns The comment enclosed in braces, or the rest-of-line comment
+ */
+export function formatComment(comment: MoveComment): string {
+  const text = getCommentText(comment);
+  if (text !== null) {
+    if (!text.includes("}")) return `{${text}}`;
+    if (!text.includes("\n")) return `;${text}`;
+    return `{${text.replace(/}/g, "")}}`;
+  }
+
+  const { commands: list } = comment as { commands: Array<CommentCommand> };
+  const commands = list.map(
+    (command) => `[%${command.key} ${command.values.join(",")}]`
+  );
+  return `{${commands.join(" ")}}`;
+}
+
+/**
+ * Removes the comments written at the start of variations, which
+ * pgn-parser does not accept, from a PGN string
+ * @param pgn - The PGN string
+ * @returns The PGN string without them, and the comments of every
+ * variation in the order the variations appear
+ */
+export function extractVariationComments(pgn: string): {
+  pgn: string;
+  comments: Array<Array<string>>;
+} {
+  const comments: Array<Array<string>> = [];
+  const leadingComment = /\s*\{([^}]*)\}/y;
+
+  const lexer = new PGNLexer();
+  let output = "";
+  let start = 0;
+
+  for (let i = 0; i < pgn.length; i++) {
+    const c = pgn[i];
+
+    if (lexer.read(c) === "text" && c === "(") {
+      const leading: Array<string> = [];
+      let end = i + 1;
+      leadingComment.lastIndex = end;
+
+      let match: RegExpExecArray | null;
+      while ((match = leadingComment.exec(pgn))) {
+        leading.push(match[1]);
+        end = leadingComment.lastIndex;
+      }
+
+      comments.push(leading);
+      if (leading.length) {
+        output += pgn.slice(start, i + 1);
+        start = end;
+        i = end - 1;
+      }
+    }
+  }
+
+  return { pgn: output + pgn.slice(start), comments };
+}
+
+/**
+ * Puts the comments removed by extractVariationComments back on the
+ * variations of the parsed games
+ * @param games - The parsed games, in file order
+ * @param comments - The comments of every variation, in file order
+ */
+export function attachVariationComments(
+  games: Array<ParsedPGN>,
+  comments: Array<Array<string>>
+): void {
+  let index = 0;
+
+  // variations appear in the text in the order of a depth-first traversal
+  const visit = (moves: Array<Move>) => {
+    for (const move of moves) {
+      for (const rav of move.ravs || []) {
+        const leading = comments[index++];
+        if (leading && leading.length) {
+          rav.comments_before_moves = leading;
+        }
+        visit(rav.moves);
+      }
+    }
+  };
+
+  games.forEach((game) => visit(game.moves));
+}
+
+/**
+ * Splits a text comment holding command annotations, which pgn-parser only
+ * recognizes in comments of their own, into a command comment and the text
+ * @param comment - The comment as stored on the move
+ * @returns The command comment followed by the remaining text, if any
+ */
+export function splitCommands(comment: MoveComment): Array<MoveComment> {
+  const text = getCommentText(comment);
+  if (text === null || !text.match(COMMAND)) return [comment];
+
+  const commands: Array<CommentCommand> = [];
+  const rest = text
+    .replace(COMMAND, (_: string, key: string, values: string) => {
+      commands.push({ key, values: values.split(",").map((v) => v.trim()) });
+      return "";
+    })
+    .trim();
+
+  return rest ? [{ commands }, { text: rest }] : [{ commands }];
+}
+
+/**
+ * Moves the command annotations written among the text of move comments
+ * into comments of their own
+ * @param games - The parsed games, updated in place
+ */
+export function separateCommentCommands(games: Array<ParsedPGN>): void {
+  const visit = (moves: Array<Move>) => {
+    for (const move of moves) {
+      const comments: Array<MoveComment> = [];
+      (move.comments || []).forEach((comment) =>
+        comments.push(...splitCommands(comment))
+      );
+      move.comments = comments as Array<string>;
+      (move.ravs || []).forEach((rav) => visit(rav.moves));
+    }
+  };
+
+  games.forEach((game) => visit(game.moves));
+}
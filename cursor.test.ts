@@ -0,0 +1,91 @@
+import PGNManager, { FEN_START_POSITION, GameCursor } from "./index";
+
+describe("GameCursor", () => {
+  const pgn = `1. e4 e5 2. Nf3 (2. f4 exf4 (2... d5) 3. Nf3) 2... Nc6 3. Bb5 *`;
+
+  let manager: PGNManager;
+  let cursor: GameCursor;
+
+  beforeEach(() => {
+    manager = new PGNManager(pgn);
+    cursor = new GameCursor(manager);
+  });
+
+  it("should start at the starting position", () => {
+    expect(cursor.move).toBeNull();
+    expect(cursor.currentFen).toBe(FEN_START_POSITION);
+    expect(cursor.back()).toBe(false);
+  });
+
+  it("should move forward and back along the main line", () => {
+    expect(cursor.forward()).toBe(true);
+    expect(cursor.move?.move).toBe("e4");
+    cursor.forward();
+    cursor.forward();
+    expect(cursor.move?.move).toBe("Nf3");
+    expect(cursor.back()).toBe(true);
+    expect(cursor.move?.move).toBe("e5");
+  });
+
+  it("should jump to the start and the end", () => {
+    cursor.toEnd();
+    expect(cursor.move?.move).toBe("Bb5");
+    expect(cursor.forward()).toBe(false);
+    cursor.toStart();
+    expect(cursor.move).toBeNull();
+  });
+
+  it("should enter and exit variations", () => {
+    cursor.goTo(2);
+    expect(cursor.variations.map((move) => move.move)).toEqual(["f4"]);
+
+    cursor.enterVariation(0);
+    expect(cursor.move?.move).toBe("f4");
+    expect(cursor.variations.map((move) => move.move)).toEqual(["d5"]);
+    cursor.enterVariation(0);
+    expect(cursor.move?.move).toBe("d5");
+    expect(cursor.currentFen).toBe(manager.getMoveFen(cursor.move!));
+
+    expect(cursor.exitVariation()).toBe(true);
+    expect(cursor.move?.move).toBe("f4");
+    expect(cursor.exitVariation()).toBe(true);
+    expect(cursor.move?.move).toBe("e5");
+    expect(cursor.exitVariation()).toBe(false);
+    expect(() => cursor.enterVariation(1)).toThrow("Invalid variation index");
+  });
+
+  it("should go back from a variation to its branching position", () => {
+    cursor.goTo(4);
+    expect(cursor.move?.move).toBe("f4");
+    cursor.back();
+    expect(cursor.move?.move).toBe("e5");
+  });
+
+  it("should list the legal moves", () => {
+    expect(cursor.legalMoves).toHaveLength(20);
+    expect(cursor.legalMoves).toContainEqual({
+      from: "g1",
+      to: "f3",
+      san: "Nf3",
+    });
+  });
+
+  it("should follow an existing continuation when playing", () => {
+    const e4 = manager.getMove(1);
+    expect(cursor.play({ from: "e2", to: "e4" })).toBe(e4);
+    expect(manager.pgn).toBe(pgn);
+  });
+
+  it("should create a variation when playing a new move", () => {
+    cursor.goTo(1);
+    const move = cursor.play({ from: "c7", to: "c5" });
+    expect(cursor.move).toBe(move);
+    expect(manager.pgn).toContain("1. e4 e5 (1... c5) 2. Nf3");
+  });
+
+  it("should throw error for an invalid start move", () => {
+    expect(() => new GameCursor(manager, 99)).toThrow(
+      "Invalid 'move' parameter while moving cursor"
+    );
+  });
+});
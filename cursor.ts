@@ -0,0 +1,209 @@
+import { Chess, Chess960 } from "void57-chess";
+import type { Move, Rav } from "pgn-parser";
+
+import PGNManager, { MoveRef, ShortMove } from "./index";
+
+/** A legal move in the position of the cursor */
+export type LegalMove = ShortMove & {
+  san: string;
+};
+
+class GameCursor {
+  /** The game navigated by the cursor */
+  private manager: PGNManager;
+
+  /** Stable id of the current move, null at the starting position */
+  private currentId: string | null = null;
+
+  /**
+   * Creates a new GameCursor instance
+   * @param manager - The game to navigate
+   * @param start - The move to start at, the starting position if omitted
+   * @throws Error if the start move is invalid
+   */
+  constructor(manager: PGNManager, start?: MoveRef) {
+    this.manager = manager;
+    if (start !== undefined) {
+      this.goTo(start);
+    }
+  }
+
+  /**
+   * Gets the move the cursor is at. If that move was deleted from the game,
+   * the cursor is back at the starting position.
+   * @returns The current move, or null at the starting position
+   */
+  public get move(): Move | null {
+    if (this.currentId === null) {
+      return null;
+    }
+    return this.manager.getMoveById(this.currentId) || null;
+  }
+
+  /**
+   * Gets the FEN of the position the cursor is at
+   * @returns The FEN after the current move
+   */
+  public get currentFen(): string {
+    const move = this.move;
+    return move ? this.manager.getMoveFen(move) : this.manager.startFen;
+  }
+
+  /**
+   * Gets the legal moves in the position the cursor is at
+   * @returns The legal moves, with their SAN
+   */
+  public get legalMoves(): Array<LegalMove> {
+    const chess = this.manager.isChess960
+      ? new Chess960(this.currentFen)
+      : new Chess(this.currentFen);
+
+    return chess.moves({ verbose: true }).map((move) => ({
+      from: move.from,
+      to: move.to,
+      ...(move.promotion ? { promotion: move.promotion } : {}),
+      san: move.san,
+    }));
+  }
+
+  /**
+   * Gets the first moves of the variations that can be entered from the
+   * position the cursor is at
+   * @returns The first move of each variation, in order
+   */
+  public get variations(): Array<Move> {
+    return this.getChildren().slice(1);
+  }
+
+  /**
+   * Moves the cursor to a move
+   * @param moveOrId - The move object, move number or move id
+   * @throws Error if the move parameter is invalid
+   */
+  public goTo = (moveOrId: MoveRef): void => {
+    const move = this.manager.resolveMove(moveOrId);
+
+    // the move has to be part of the game, which gave it its id
+    if (!move || !move.id || this.manager.getMoveById(move.id) !== move) {
+      throw Error("Invalid 'move' parameter while moving cursor");
+    }
+    this.currentId = move.id;
+  };
+
+  /**
+   * Moves the cursor one move forward along the current line
+   * @returns True if the cursor moved, false at the end of the line
+   */
+  public forward = (): boolean => {
+    const next = this.getChildren()[0];
+    if (!next) {
+      return false;
+    }
+    this.currentId = next.id;
+    return true;
+  };
+
+  /**
+   * Moves the cursor one move back. From the first move of a variation it
+   * goes back to the position the variation branches from.
+   * @returns True if the cursor moved, false at the starting position
+   */
+  public back = (): boolean => {
+    const move = this.move;
+    if (!move) {
+      return false;
+    }
+    this.setCurrent(this.manager.getParentMove(move));
+    return true;
+  };
+
+  /**
+   * Moves the cursor to the starting position
+   */
+  public toStart = (): void => {
+    this.currentId = null;
+  };
+
+  /**
+   * Moves the cursor to the last move of the current line
+   */
+  public toEnd = (): void => {
+    while (this.forward());
+  };
+
+  /**
+   * Moves the cursor to the first move of a variation branching from the
+   * position it is at
+   * @param index - The 0-based index of the variation, as in `variations`
+   * @throws Error if there is no such variation
+   */
+  public enterVariation = (index: number): void => {
+    const variation = this.variations[index];
+    if (!variation) {
+      throw Error("Invalid variation index");
+    }
+    this.currentId = variation.id;
+  };
+
+  /**
+   * Moves the cursor out of the variation it is in, to the position the
+   * variation branches from in the enclosing line
+   * @returns True if the cursor moved, false in the main line
+   */
+  public exitVariation = (): boolean => {
+    const move = this.move;
+    if (!move) {
+      return false;
+    }
+    const line = this.getLine(move);
+    if (line === this.manager.parsedPGN) {
+      return false;
+    }
+    this.setCurrent(this.manager.getParentMove(line.moves[0]));
+    return true;
+  };
+
+  /**
+   * Plays a move from the position the cursor is at. An existing
+   * continuation with this move is followed, otherwise the move is added to
+   * the game, as a new variation if the line already continues.
+   * @param shortMove - The move to play
+   * @returns The move the cursor is at after playing it
+   * @throws Error if the move is illegal
+   */
+  public play = (shortMove: ShortMove): Move => {
+    const move = this.move;
+    const moveId = move ? this.manager.getMoveNumber(move) : 0;
+    const played = this.manager.pushMove(moveId, shortMove);
+    this.currentId = played.id;
+    return played;
+  };
+
+  /**
+   * Sets the current move
+   * @param move - The move, or null for the starting position
+   */
+  private setCurrent = (move: Move | null) => {
+    this.currentId = move ? move.id : null;
+  };
+
+  /**
+   * Gets the line holding a move
+   * @param move - The move object
+   * @returns The variation, or the game for main line moves
+   */
+  private getLine = (move: Move): Rav => {
+    return this.manager.getParentRav(move) || this.manager.parsedPGN;
+  };
+
+  /**
+   * Gets the moves that can follow the position the cursor is at
+   * @returns The continuation of the current line first, then the first
+   * moves of the variations
+   */
+  private getChildren = (): Array<Move> => {
+    return this.manager.getContinuations(this.move);
+  };
+}
+
+export default GameCursor;
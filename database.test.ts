@@ -0,0 +1,227 @@
+import PGNManager, { PGNDatabase } from "./index";
+
+describe("PGNDatabase", () => {
+  const tournamentPGN = `[Event "Test Tournament"]
+[Site "Test Site"]
+[Date "2023.01.01"]
+[Round "1"]
+[White "Player1"]
+[Black "Player2"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 1-0
+
+[Event "Test Tournament"]
+[Site "Test Site"]
+[Date "2023.01.02"]
+[Round "2"]
+[White "Player2"]
+[Black "Player3"]
+[Result "1/2-1/2"]
+
+1. d4 d5 2. c4 (2. Nf3 Nf6) 2... e6 1/2-1/2
+
+[Event "Test Tournament"]
+[Site "Test Site"]
+[Date "2023.01.03"]
+[Round "3"]
+[White "Player3"]
+[Black "Player1"]
+[Result "0-1"]
+
+1. c4 e5 0-1`;
+
+  describe("Loading", () => {
+    it("should load every game of a multi-game PGN", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      expect(db.count).toBe(3);
+    });
+
+    it("should expose each game as a PGNManager", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const game = db.getGame(1);
+      expect(game).toBeInstanceOf(PGNManager);
+      expect(game.getFirstMove().move).toBe("d4");
+      expect(game.parsedPGN.result).toBe("1/2-1/2");
+    });
+
+    it("should keep variations of each game", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const game = db.getGame(1);
+      expect(game.getMove(4).move).toBe("Nf3");
+      expect(game.getParentRav(4)).not.toBe(game.parsedPGN);
+    });
+
+    it("should load a single game without a result", () => {
+      const db = new PGNDatabase("1. e4 e5 2. Nf3");
+      expect(db.count).toBe(1);
+      expect(db.getGame(0).getLastMove().move).toBe("Nf3");
+    });
+
+    it("should load games without a result before the last one", () => {
+      const db = new PGNDatabase(
+        '[Event "a"]\n\n1. e4 e5\n\n[Event "b"]\n\n1. d4 d5 1-0'
+      );
+      expect(db.count).toBe(2);
+      expect(db.getGame(0).parsedPGN.result).toBe("*");
+      expect(db.getGame(0).getLastMove().move).toBe("e5");
+      expect(db.getGame(1).parsedPGN.headers).toEqual([
+        { name: "Event", value: "b" },
+      ]);
+      expect(db.getGame(1).parsedPGN.result).toBe("1-0");
+    });
+
+    it("should load every game with the given options", () => {
+      const pgn = "1. e4 e5 1-0\n\n1. d4 d5 2. Nf5 *";
+      expect(() => new PGNDatabase(pgn, { mode: "strict" })).toThrow(
+        "Illegal move 2. Nf5"
+      );
+
+      const db = new PGNDatabase(pgn, { historyDepth: 0 });
+      expect(db.getGame(1).errors).toHaveLength(1);
+      db.addGame("1. c4 c5 *").truncateAfter(1);
+      expect(db.getGame(2).canUndo).toBe(false);
+    });
+
+    it("should create an empty database", () => {
+      const db = new PGNDatabase();
+      expect(db.count).toBe(0);
+      expect(db.pgn).toBe("");
+    });
+
+    it("should throw error for invalid index", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      expect(() => db.getGame(3)).toThrow("Invalid game index");
+      expect(() => db.getGame(-1)).toThrow("Invalid game index");
+    });
+  });
+
+  describe("Iteration", () => {
+    it("should iterate over games in order", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const firstMoves = [...db].map((game) => game.getFirstMove().move);
+      expect(firstMoves).toEqual(["e4", "d4", "c4"]);
+    });
+
+    it("should find the index of a game", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const game = db.getGame(2);
+      expect(db.indexOf(game)).toBe(2);
+      expect(db.indexOf(new PGNManager("1. e4 *"))).toBe(-1);
+    });
+  });
+
+  describe("Editing", () => {
+    let db: PGNDatabase;
+
+    beforeEach(() => {
+      db = new PGNDatabase(tournamentPGN);
+    });
+
+    it("should add a game from a PGN string", () => {
+      const game = db.addGame("1. f4 e5 *");
+      expect(db.count).toBe(4);
+      expect(db.getGame(3)).toBe(game);
+    });
+
+    it("should add a game at a given index", () => {
+      const game = new PGNManager("1. f4 e5 *");
+      db.addGame(game, 0);
+      expect(db.getGame(0)).toBe(game);
+      expect(db.getGame(1).getFirstMove().move).toBe("e4");
+    });
+
+    it("should remove a game", () => {
+      const removed = db.removeGame(0);
+      expect(removed.getFirstMove().move).toBe("e4");
+      expect(db.count).toBe(2);
+      expect(db.getGame(0).getFirstMove().move).toBe("d4");
+    });
+
+    it("should reorder games", () => {
+      db.moveGame(0, 2);
+      const firstMoves = [...db].map((game) => game.getFirstMove().move);
+      expect(firstMoves).toEqual(["d4", "c4", "e4"]);
+    });
+
+    it("should throw error when moving to an invalid index", () => {
+      expect(() => db.moveGame(0, 3)).toThrow("Invalid game index");
+    });
+  });
+
+  describe("Search", () => {
+    it("should find moves across the games", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const matches = db.search({ san: "e5" });
+      expect(matches.map((match) => match.gameIndex)).toEqual([0, 2]);
+      expect(matches[1].move).toBe(db.getGame(2).getMove(2));
+    });
+
+    it("should find positions in variations", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const pieces = { f3: "N", f6: "n" };
+      expect(db.search({ pieces })).toEqual([]);
+      expect(db.search({ pieces, variations: true })[0].gameIndex).toBe(1);
+    });
+  });
+
+  describe("Queries", () => {
+    it("should filter games by their headers", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const games = db.filter({ player: "player1", dateFrom: "2023.01.02" });
+      expect(games).toEqual([db.getGame(2)]);
+    });
+
+    it("should sort the games in place", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const last = db.getGame(2);
+      db.sort("date", "desc");
+      expect(db.getGame(0)).toBe(last);
+      expect(db.getGame(0).getHeader("Round")).toBe("3");
+    });
+
+    it("should compute the standings", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      expect(db.getPlayerStats("Player1").score).toBe(2);
+      expect(
+        db.getStandings().map(({ player, score }) => [player, score])
+      ).toEqual([
+        ["Player1", 2],
+        ["Player2", 0.5],
+        ["Player3", 0.5],
+      ]);
+    });
+  });
+
+  describe("Opening tree", () => {
+    it("should merge the games into a tree", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const tree = db.getOpeningTree({ maxPly: 2 });
+      expect(tree.count).toBe(3);
+      const moves = tree.getMoves(db.getGame(0).startFen);
+      expect(moves.map((move) => move.san)).toEqual(["e4", "d4", "c4"]);
+      expect(moves[0]).toMatchObject({ games: 1, white: 1 });
+    });
+  });
+
+  describe("Serialization", () => {
+    it("should regenerate the full file", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const reloaded = new PGNDatabase(db.pgn);
+
+      expect(reloaded.count).toBe(3);
+      expect(reloaded.getGame(1).pgn).toBe(db.getGame(1).pgn);
+      expect(db.pgn).toContain("1. d4 d5 2. c4 (2. Nf3 Nf6) 2... e6");
+    });
+
+    it("should include edits made to a single game", () => {
+      const db = new PGNDatabase(tournamentPGN);
+      const game = db.getGame(2);
+      game.pushMove(game.getMoveNumber(game.getLastMove()), {
+        from: "b1",
+        to: "c3",
+      });
+      expect(db.pgn).toContain("1. c4 e5 2. Nc3");
+    });
+  });
+});
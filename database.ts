@@ -0,0 +1,198 @@
+import type { ParsedPGN } from "pgn-parser";
+
+import PGNManager, { PGNManagerOptions } from "./index";
+import { parsePGN } from "./utils";
+import { splitGameText } from "./split";
+import { PositionQuery, SearchMatch, searchGames } from "./search";
+import {
+  GameFilter,
+  GameSortKey,
+  PlayerStats,
+  filterGames,
+  sortGames,
+  getPlayerStats,
+  getStandings,
+} from "./query";
+import OpeningTree, { OpeningTreeOptions } from "./tree";
+
+/**
+ * Parses every game in a PGN string. The result token of every game is
+ * optional, as it is for a single game loaded through PGNManager.
+ */
+function parseGames(pgn: string): Array<ParsedPGN> {
+  return splitGameText(pgn).map((text) => parsePGN(text + " *")[0]);
+}
+
+class PGNDatabase implements Iterable<PGNManager> {
+  /** The games of the database, in file order */
+  private games: Array<PGNManager>;
+
+  /** How the games are loaded */
+  private options: PGNManagerOptions;
+
+  /**
+   * Creates a new PGNDatabase instance
+   * @param pgn - The PGN string holding any number of games
+   * @param options - How every game is loaded, such as the parse mode
+   */
+  constructor(pgn: string = "", options: PGNManagerOptions = {}) {
+    this.options = options;
+    this.games = parseGames(pgn).map(
+      (game) => new PGNManager(game, this.options)
+    );
+  }
+
+  /**
+   * Gets the number of games in the database
+   * @returns The number of games
+   */
+  public get count(): number {
+    return this.games.length;
+  }
+
+  /**
+   * Gets the PGN string of the whole database
+   * @returns The games regenerated one after the other
+   */
+  public get pgn(): string {
+    return this.games.map((game) => game.pgn).join("\n\n");
+  }
+
+  /**
+   * Gets a game by its position in the database
+   * @param index - The 0-based index of the game
+   * @returns The game at the specified position
+   * @throws Error if the index is out of range
+   */
+  public getGame = (index: number): PGNManager => {
+    if (!Number.isInteger(index) || index < 0 || index >= this.games.length) {
+      throw Error("Invalid game index");
+    }
+    return this.games[index];
+  };
+
+  /**
+   * Gets the position of a game in the database
+   * @param game - The game object
+   * @returns The 0-based index of the game, or -1 if it is not in the database
+   */
+  public indexOf = (game: PGNManager): number => {
+    return this.games.indexOf(game);
+  };
+
+  /**
+   * Adds a game to the database
+   * @param game - The game object or its PGN string, loaded with the
+   * options of the database
+   * @param index - The 0-based position to insert at (default is the end)
+   * @returns The added game object
+   * @throws Error if the index is out of range
+   */
+  public addGame = (
+    game: PGNManager | string,
+    index: number = this.games.length
+  ): PGNManager => {
+    if (!Number.isInteger(index) || index < 0 || index > this.games.length) {
+      throw Error("Invalid game index");
+    }
+    const manager =
+      typeof game === "string" ? new PGNManager(game, this.options) : game;
+    this.games.splice(index, 0, manager);
+    return manager;
+  };
+
+  /**
+   * Removes a game from the database
+   * @param index - The 0-based index of the game to remove
+   * @returns The removed game object
+   * @throws Error if the index is out of range
+   */
+  public removeGame = (index: number): PGNManager => {
+    const game = this.getGame(index);
+    this.games.splice(index, 1);
+    return game;
+  };
+
+  /**
+   * Moves a game to another position in the database
+   * @param from - The current 0-based index of the game
+   * @param to - The 0-based index the game should end up at
+   * @throws Error if either index is out of range
+   */
+  public moveGame = (from: number, to: number): void => {
+    const game = this.getGame(from);
+    if (!Number.isInteger(to) || to < 0 || to >= this.games.length) {
+      throw Error("Invalid game index");
+    }
+    this.games.splice(from, 1);
+    this.games.splice(to, 0, game);
+  };
+
+  /**
+   * Finds the moves of the games matching a query
+   * @param query - The position, material, pieces or move to look for
+   * @returns The matching moves with the index of their game
+   * @throws Error if the query is invalid
+   */
+  public search = (query: PositionQuery): Array<SearchMatch> => {
+    return searchGames(this.games, query);
+  };
+
+  /**
+   * Selects the games matching header criteria
+   * @param filter - The players, event, site, result, dates, ratings or ECO
+   * to match
+   * @returns The matching games, in database order
+   * @throws Error if a date of the filter is invalid
+   */
+  public filter = (filter: GameFilter): Array<PGNManager> => {
+    return filterGames(this.games, filter);
+  };
+
+  /**
+   * Sorts the games of the database by their headers
+   * @param by - The key to sort by, or several keys in order of priority
+   * @param order - "asc" (the default) or "desc"
+   */
+  public sort = (
+    by: GameSortKey | Array<GameSortKey>,
+    order: "asc" | "desc" = "asc"
+  ): void => {
+    this.games = sortGames(this.games, by, order);
+  };
+
+  /**
+   * Computes the results of a player over the games of the database
+   * @param player - The name of the player, ignoring case
+   * @returns The score, wins, draws and losses by color, and the performance
+   */
+  public getPlayerStats = (player: string): PlayerStats => {
+    return getPlayerStats(this.games, player);
+  };
+
+  /**
+   * Computes the results of every player of the database
+   * @returns The stats of every player, by score and then by name
+   */
+  public getStandings = (): Array<PlayerStats> => {
+    return getStandings(this.games);
+  };
+
+  /**
+   * Merges the games of the database into an opening tree
+   * @param options - How the games are added
+   * @returns The tree of the moves played in each position, with their results
+   */
+  public getOpeningTree = (options: OpeningTreeOptions = {}): OpeningTree => {
+    return new OpeningTree(this.games, options);
+  };
+
+  /**
+   * Iterates over the games in database order
+   */
+  public [Symbol.iterator](): Iterator<PGNManager> {
+    return this.games[Symbol.iterator]();
+  }
+}
+
+export default PGNDatabase;
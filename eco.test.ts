@@ -0,0 +1,84 @@
+import PGNManager, { ECO_TABLE, getEcoIndex } from "./index";
+import { splitOpeningName } from "./eco";
+
+describe("Opening classification", () => {
+  it("should index every opening of the bundled table", () => {
+    expect(getEcoIndex().size).toBe(ECO_TABLE.length);
+    expect(getEcoIndex()).toBe(getEcoIndex(ECO_TABLE));
+  });
+
+  it("should throw error on an invalid table", () => {
+    expect(() =>
+      getEcoIndex([{ eco: "Z99", name: "Nonsense", moves: "1. e4 Ke5" }])
+    ).toThrow("Invalid move in opening Z99: Ke5");
+  });
+
+  it("should split opening names", () => {
+    expect(splitOpeningName("Sicilian Defense: Najdorf Variation")).toEqual({
+      opening: "Sicilian Defense",
+      variation: "Najdorf Variation",
+    });
+    expect(splitOpeningName("Ruy Lopez")).toEqual({
+      opening: "Ruy Lopez",
+      variation: null,
+    });
+  });
+
+  it("should find the deepest opening and where the game left theory", () => {
+    const manager = new PGNManager(
+      "1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 (5... g6) 6. Be3 e5 *"
+    );
+    const opening = manager.classifyOpening();
+    expect(opening).toMatchObject({
+      eco: "B90",
+      opening: "Sicilian Defense",
+      variation: "Najdorf Variation",
+    });
+    expect(opening.move.move).toBe("a6");
+    expect(opening.leftTheory.move).toBe("Be3");
+  });
+
+  it("should recognize transpositions", () => {
+    const manager = new PGNManager("1. d4 e6 2. c4 Nf6 3. Nc3 Bb4 *");
+    const opening = manager.classifyOpening();
+    expect(opening.eco).toBe("E20");
+    expect(opening.opening).toBe("Nimzo-Indian Defense");
+    expect(opening.leftTheory).toBeNull();
+  });
+
+  it("should return null when no position matches", () => {
+    expect(new PGNManager("1. a3 a6 *").classifyOpening()).toBeNull();
+  });
+
+  it("should match against a custom table", () => {
+    const manager = new PGNManager("1. e4 e5 2. Nf3 *");
+    const table = [{ eco: "X00", name: "Open Game", moves: "1. e4 e5" }];
+    expect(manager.classifyOpening({ table })).toMatchObject({
+      eco: "X00",
+      opening: "Open Game",
+      variation: null,
+    });
+  });
+
+  it("should write the opening headers as one edit", () => {
+    const manager = new PGNManager(`[Event "Test"]
+[Variation "Old"]
+
+1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Bxc6 *`);
+    manager.classifyOpening({ setHeaders: true });
+    expect(manager.getHeader("ECO")).toBe("C68");
+    expect(manager.getHeader("Opening")).toBe("Ruy Lopez");
+    expect(manager.getHeader("Variation")).toBe("Exchange Variation");
+
+    manager.undo();
+    expect(manager.getHeader("ECO")).toBeUndefined();
+    expect(manager.getHeader("Variation")).toBe("Old");
+
+    const italian = new PGNManager(`[Variation "Old"]
+
+1. e4 e5 2. Nf3 Nc6 3. Bc4 *`);
+    italian.classifyOpening({ setHeaders: true });
+    expect(italian.getHeader("Opening")).toBe("Italian Game");
+    expect(italian.getHeader("Variation")).toBeUndefined();
+  });
+});
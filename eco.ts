@@ -0,0 +1,438 @@
+import { Chess } from "void57-chess";
+import type { Move } from "pgn-parser";
+
+import { normalizeFen } from "./index";
+
+/** An opening of the ECO table */
+export type EcoEntry = {
+  /** ECO code, such as "B90" */
+  eco: string;
+  /** Opening name, followed by the variation after a colon */
+  name: string;
+  /** Moves of the opening in PGN notation */
+  moves: string;
+};
+
+/** The opening a game was classified as */
+export type OpeningInfo = {
+  eco: string;
+  /** Name of the opening, such as "Sicilian Defense" */
+  opening: string;
+  /** Name of the variation, such as "Najdorf Variation", if there is one */
+  variation: string | null;
+  /** The last main line move reaching a position of the table */
+  move: Move;
+  /** The first main line move after it, null if the game ends in theory */
+  leftTheory: Move | null;
+};
+
+/** Options for classifying the opening of a game */
+export type OpeningOptions = {
+  /** The openings to match, ECO_TABLE if omitted */
+  table?: Array<EcoEntry>;
+  /** Writes the ECO, Opening and Variation headers into the game */
+  setHeaders?: boolean;
+};
+
+/** The bundled ECO table: the main openings and variations of every volume */
+export const ECO_TABLE: Array<EcoEntry> = [
+  { eco: "A00", name: "Polish Opening", moves: "1. b4" },
+  { eco: "A00", name: "Grob Opening", moves: "1. g4" },
+  { eco: "A00", name: "Van't Kruijs Opening", moves: "1. e3" },
+  { eco: "A01", name: "Nimzo-Larsen Attack", moves: "1. b3" },
+  { eco: "A02", name: "Bird Opening", moves: "1. f4" },
+  { eco: "A03", name: "Bird Opening: Dutch Variation", moves: "1. f4 d5" },
+  { eco: "A04", name: "Zukertort Opening", moves: "1. Nf3" },
+  { eco: "A05", name: "Zukertort Opening: Quiet System", moves: "1. Nf3 Nf6" },
+  { eco: "A06", name: "Zukertort Opening", moves: "1. Nf3 d5" },
+  { eco: "A07", name: "King's Indian Attack", moves: "1. Nf3 d5 2. g3" },
+  { eco: "A09", name: "Réti Opening", moves: "1. Nf3 d5 2. c4" },
+  { eco: "A10", name: "English Opening", moves: "1. c4" },
+  { eco: "A13", name: "English Opening: Agincourt Defense", moves: "1. c4 e6" },
+  {
+    eco: "A15",
+    name: "English Opening: Anglo-Indian Defense",
+    moves: "1. c4 Nf6",
+  },
+  {
+    eco: "A20",
+    name: "English Opening: King's English Variation",
+    moves: "1. c4 e5",
+  },
+  {
+    eco: "A30",
+    name: "English Opening: Symmetrical Variation",
+    moves: "1. c4 c5",
+  },
+  { eco: "A40", name: "Queen's Pawn Game", moves: "1. d4" },
+  { eco: "A43", name: "Benoni Defense: Old Benoni", moves: "1. d4 c5" },
+  { eco: "A45", name: "Indian Defense", moves: "1. d4 Nf6" },
+  {
+    eco: "A46",
+    name: "Indian Defense: Knights Variation",
+    moves: "1. d4 Nf6 2. Nf3",
+  },
+  {
+    eco: "A50",
+    name: "Indian Defense: Normal Variation",
+    moves: "1. d4 Nf6 2. c4",
+  },
+  {
+    eco: "A51",
+    name: "Indian Defense: Budapest Defense",
+    moves: "1. d4 Nf6 2. c4 e5",
+  },
+  { eco: "A53", name: "Old Indian Defense", moves: "1. d4 Nf6 2. c4 d6" },
+  { eco: "A56", name: "Benoni Defense", moves: "1. d4 Nf6 2. c4 c5" },
+  { eco: "A57", name: "Benko Gambit", moves: "1. d4 Nf6 2. c4 c5 3. d5 b5" },
+  {
+    eco: "A60",
+    name: "Benoni Defense: Modern Variation",
+    moves: "1. d4 Nf6 2. c4 c5 3. d5 e6",
+  },
+  { eco: "A80", name: "Dutch Defense", moves: "1. d4 f5" },
+  { eco: "B00", name: "King's Pawn Game", moves: "1. e4" },
+  { eco: "B00", name: "Nimzowitsch Defense", moves: "1. e4 Nc6" },
+  { eco: "B01", name: "Scandinavian Defense", moves: "1. e4 d5" },
+  {
+    eco: "B01",
+    name: "Scandinavian Defense: Main Line",
+    moves: "1. e4 d5 2. exd5 Qxd5 3. Nc3 Qa5",
+  },
+  { eco: "B02", name: "Alekhine Defense", moves: "1. e4 Nf6" },
+  { eco: "B06", name: "Modern Defense", moves: "1. e4 g6" },
+  { eco: "B07", name: "Pirc Defense", moves: "1. e4 d6 2. d4 Nf6" },
+  { eco: "B10", name: "Caro-Kann Defense", moves: "1. e4 c6" },
+  {
+    eco: "B12",
+    name: "Caro-Kann Defense: Advance Variation",
+    moves: "1. e4 c6 2. d4 d5 3. e5",
+  },
+  {
+    eco: "B13",
+    name: "Caro-Kann Defense: Exchange Variation",
+    moves: "1. e4 c6 2. d4 d5 3. exd5 cxd5",
+  },
+  { eco: "B15", name: "Caro-Kann Defense", moves: "1. e4 c6 2. d4 d5 3. Nc3" },
+  {
+    eco: "B18",
+    name: "Caro-Kann Defense: Classical Variation",
+    moves: "1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Bf5",
+  },
+  { eco: "B20", name: "Sicilian Defense", moves: "1. e4 c5" },
+  {
+    eco: "B21",
+    name: "Sicilian Defense: Smith-Morra Gambit",
+    moves: "1. e4 c5 2. d4 cxd4 3. c3",
+  },
+  {
+    eco: "B22",
+    name: "Sicilian Defense: Alapin Variation",
+    moves: "1. e4 c5 2. c3",
+  },
+  { eco: "B23", name: "Sicilian Defense: Closed", moves: "1. e4 c5 2. Nc3" },
+  { eco: "B27", name: "Sicilian Defense", moves: "1. e4 c5 2. Nf3" },
+  {
+    eco: "B30",
+    name: "Sicilian Defense: Old Sicilian",
+    moves: "1. e4 c5 2. Nf3 Nc6",
+  },
+  {
+    eco: "B30",
+    name: "Sicilian Defense: Rossolimo Variation",
+    moves: "1. e4 c5 2. Nf3 Nc6 3. Bb5",
+  },
+  {
+    eco: "B33",
+    name: "Sicilian Defense: Open",
+    moves: "1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 Nf6",
+  },
+  {
+    eco: "B40",
+    name: "Sicilian Defense: French Variation",
+    moves: "1. e4 c5 2. Nf3 e6",
+  },
+  {
+    eco: "B50",
+    name: "Sicilian Defense: Modern Variations",
+    moves: "1. e4 c5 2. Nf3 d6",
+  },
+  {
+    eco: "B54",
+    name: "Sicilian Defense: Modern Variations",
+    moves: "1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4",
+  },
+  {
+    eco: "B56",
+    name: "Sicilian Defense: Classical Variation",
+    moves: "1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3",
+  },
+  {
+    eco: "B70",
+    name: "Sicilian Defense: Dragon Variation",
+    moves: "1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6",
+  },
+  {
+    eco: "B90",
+    name: "Sicilian Defense: Najdorf Variation",
+    moves: "1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6",
+  },
+  { eco: "C00", name: "French Defense", moves: "1. e4 e6" },
+  {
+    eco: "C01",
+    name: "French Defense: Exchange Variation",
+    moves: "1. e4 e6 2. d4 d5 3. exd5 exd5",
+  },
+  {
+    eco: "C02",
+    name: "French Defense: Advance Variation",
+    moves: "1. e4 e6 2. d4 d5 3. e5",
+  },
+  {
+    eco: "C03",
+    name: "French Defense: Tarrasch Variation",
+    moves: "1. e4 e6 2. d4 d5 3. Nd2",
+  },
+  {
+    eco: "C10",
+    name: "French Defense: Paulsen Variation",
+    moves: "1. e4 e6 2. d4 d5 3. Nc3",
+  },
+  {
+    eco: "C11",
+    name: "French Defense: Classical Variation",
+    moves: "1. e4 e6 2. d4 d5 3. Nc3 Nf6",
+  },
+  {
+    eco: "C15",
+    name: "French Defense: Winawer Variation",
+    moves: "1. e4 e6 2. d4 d5 3. Nc3 Bb4",
+  },
+  { eco: "C20", name: "King's Pawn Game", moves: "1. e4 e5" },
+  { eco: "C23", name: "Bishop's Opening", moves: "1. e4 e5 2. Bc4" },
+  { eco: "C25", name: "Vienna Game", moves: "1. e4 e5 2. Nc3" },
+  { eco: "C30", name: "King's Gambit", moves: "1. e4 e5 2. f4" },
+  { eco: "C33", name: "King's Gambit Accepted", moves: "1. e4 e5 2. f4 exf4" },
+  { eco: "C40", name: "King's Knight Opening", moves: "1. e4 e5 2. Nf3" },
+  { eco: "C41", name: "Philidor Defense", moves: "1. e4 e5 2. Nf3 d6" },
+  { eco: "C42", name: "Petrov's Defense", moves: "1. e4 e5 2. Nf3 Nf6" },
+  {
+    eco: "C44",
+    name: "King's Knight Opening: Normal Variation",
+    moves: "1. e4 e5 2. Nf3 Nc6",
+  },
+  { eco: "C44", name: "Scotch Game", moves: "1. e4 e5 2. Nf3 Nc6 3. d4" },
+  {
+    eco: "C45",
+    name: "Scotch Game",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4",
+  },
+  {
+    eco: "C46",
+    name: "Three Knights Opening",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Nc3",
+  },
+  {
+    eco: "C47",
+    name: "Four Knights Game",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6",
+  },
+  { eco: "C50", name: "Italian Game", moves: "1. e4 e5 2. Nf3 Nc6 3. Bc4" },
+  {
+    eco: "C50",
+    name: "Italian Game: Giuoco Piano",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5",
+  },
+  {
+    eco: "C51",
+    name: "Italian Game: Evans Gambit",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. b4",
+  },
+  {
+    eco: "C53",
+    name: "Italian Game: Classical Variation",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3",
+  },
+  {
+    eco: "C55",
+    name: "Italian Game: Two Knights Defense",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6",
+  },
+  {
+    eco: "C57",
+    name: "Italian Game: Two Knights Defense, Knight Attack",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5",
+  },
+  { eco: "C60", name: "Ruy Lopez", moves: "1. e4 e5 2. Nf3 Nc6 3. Bb5" },
+  {
+    eco: "C65",
+    name: "Ruy Lopez: Berlin Defense",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6",
+  },
+  {
+    eco: "C68",
+    name: "Ruy Lopez: Exchange Variation",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Bxc6",
+  },
+  {
+    eco: "C70",
+    name: "Ruy Lopez: Morphy Defense",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4",
+  },
+  {
+    eco: "C78",
+    name: "Ruy Lopez: Morphy Defense",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O",
+  },
+  {
+    eco: "C84",
+    name: "Ruy Lopez: Closed",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7",
+  },
+  {
+    eco: "C88",
+    name: "Ruy Lopez: Closed",
+    moves: "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3",
+  },
+  { eco: "D00", name: "Queen's Pawn Game", moves: "1. d4 d5" },
+  {
+    eco: "D02",
+    name: "Queen's Pawn Game: Zukertort Variation",
+    moves: "1. d4 d5 2. Nf3",
+  },
+  { eco: "D06", name: "Queen's Gambit", moves: "1. d4 d5 2. c4" },
+  {
+    eco: "D07",
+    name: "Queen's Gambit Declined: Chigorin Defense",
+    moves: "1. d4 d5 2. c4 Nc6",
+  },
+  {
+    eco: "D08",
+    name: "Queen's Gambit Declined: Albin Countergambit",
+    moves: "1. d4 d5 2. c4 e5",
+  },
+  { eco: "D10", name: "Slav Defense", moves: "1. d4 d5 2. c4 c6" },
+  { eco: "D20", name: "Queen's Gambit Accepted", moves: "1. d4 d5 2. c4 dxc4" },
+  { eco: "D30", name: "Queen's Gambit Declined", moves: "1. d4 d5 2. c4 e6" },
+  {
+    eco: "D43",
+    name: "Semi-Slav Defense",
+    moves: "1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 e6",
+  },
+  {
+    eco: "D80",
+    name: "Grünfeld Defense",
+    moves: "1. d4 Nf6 2. c4 g6 3. Nc3 d5",
+  },
+  {
+    eco: "D85",
+    name: "Grünfeld Defense: Exchange Variation",
+    moves: "1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. cxd5 Nxd5",
+  },
+  {
+    eco: "E00",
+    name: "Indian Defense: East Indian Defense",
+    moves: "1. d4 Nf6 2. c4 e6",
+  },
+  { eco: "E01", name: "Catalan Opening", moves: "1. d4 Nf6 2. c4 e6 3. g3" },
+  {
+    eco: "E10",
+    name: "Indian Defense: Anti-Nimzo-Indian",
+    moves: "1. d4 Nf6 2. c4 e6 3. Nf3",
+  },
+  {
+    eco: "E11",
+    name: "Bogo-Indian Defense",
+    moves: "1. d4 Nf6 2. c4 e6 3. Nf3 Bb4+",
+  },
+  {
+    eco: "E12",
+    name: "Queen's Indian Defense",
+    moves: "1. d4 Nf6 2. c4 e6 3. Nf3 b6",
+  },
+  {
+    eco: "E20",
+    name: "Nimzo-Indian Defense",
+    moves: "1. d4 Nf6 2. c4 e6 3. Nc3 Bb4",
+  },
+  { eco: "E60", name: "King's Indian Defense", moves: "1. d4 Nf6 2. c4 g6" },
+  {
+    eco: "E61",
+    name: "King's Indian Defense",
+    moves: "1. d4 Nf6 2. c4 g6 3. Nc3 Bg7",
+  },
+  {
+    eco: "E70",
+    name: "King's Indian Defense: Normal Variation",
+    moves: "1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6",
+  },
+  {
+    eco: "E90",
+    name: "King's Indian Defense: Normal Variation",
+    moves: "1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3",
+  },
+  {
+    eco: "E97",
+    name: "King's Indian Defense: Orthodox Variation",
+    moves: "1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5 7. O-O Nc6",
+  },
+];
+
+/** Positions of the tables used so far, by normalized FEN */
+const ecoIndexes: WeakMap<Array<EcoEntry>, Map<string, EcoEntry>> =
+  new WeakMap();
+
+/**
+ * Indexes the positions of an ECO table. When several openings reach the
+ * same position, the first one in the table is kept.
+ * @param table - The openings, such as ECO_TABLE
+ * @returns The opening reaching each position, by normalized FEN
+ * @throws Error if an opening of the table holds an illegal move
+ */
+export function getEcoIndex(
+  table: Array<EcoEntry> = ECO_TABLE
+): Map<string, EcoEntry> {
+  if (ecoIndexes.has(table)) {
+    return ecoIndexes.get(table);
+  }
+
+  const index: Map<string, EcoEntry> = new Map();
+  for (const entry of table) {
+    const chess = new Chess();
+    const moves = entry.moves.replace(/\d+\.+/g, " ").trim().split(/\s+/);
+    for (const san of moves) {
+      try {
+        chess.move(san);
+      } catch {
+        throw Error(`Invalid move in opening ${entry.eco}: ${san}`);
+      }
+    }
+
+    const position = normalizeFen(chess.fen());
+    if (!index.has(position)) {
+      index.set(position, entry);
+    }
+  }
+
+  ecoIndexes.set(table, index);
+  return index;
+}
+
+/**
+ * Splits the name of an opening into the opening and its variation
+ * @param name - The name, such as "Sicilian Defense: Najdorf Variation"
+ * @returns The opening and the variation, null if the name has none
+ */
+export function splitOpeningName(name: string): {
+  opening: string;
+  variation: string | null;
+} {
+  const separator = name.indexOf(":");
+  if (separator === -1) {
+    return { opening: name, variation: null };
+  }
+  return {
+    opening: name.slice(0, separator).trim(),
+    variation: name.slice(separator + 1).trim(),
+  };
+}
@@ -0,0 +1,123 @@
+import * as pgnParser from "pgn-parser";
+import type { ParsedPGN } from "pgn-parser";
+import {
+  SEVEN_TAG_ROSTER,
+  findHeader,
+  escapeHeaderValue,
+  unescapeHeaderValue,
+  formatHeaders,
+  parsePGNDate,
+  protectHeaderValues,
+  restoreHeaderValues,
+} from "./headers";
+
+describe("Headers", () => {
+  const game = (headers: ParsedPGN["headers"]): ParsedPGN => ({
+    comments_above_header: null,
+    headers,
+    comments: null,
+    moves: [],
+    result: "1-0",
+  });
+
+  describe("findHeader", () => {
+    it("should find headers ignoring case", () => {
+      const headers = [{ name: "FEN", value: "8/8/8/8/8/8/8/8 w - - 0 1" }];
+      expect(findHeader(headers, "fen")).toBe(headers[0]);
+      expect(findHeader(headers, "Variant")).toBeUndefined();
+      expect(findHeader(null, "FEN")).toBeUndefined();
+    });
+  });
+
+  describe("escaping", () => {
+    it("should escape quotes and backslashes", () => {
+      expect(escapeHeaderValue('The "Immortal" C:\\')).toBe(
+        'The \\"Immortal\\" C:\\\\'
+      );
+    });
+
+    it("should resolve escape sequences", () => {
+      expect(unescapeHeaderValue('The \\"Immortal\\" C:\\\\')).toBe(
+        'The "Immortal" C:\\'
+      );
+    });
+  });
+
+  describe("formatHeaders", () => {
+    it("should write the Seven Tag Roster first and in order", () => {
+      const lines = formatHeaders(
+        game([
+          { name: "WhiteElo", value: "2800" },
+          { name: "Black", value: "Player2" },
+          { name: "event", value: "Test Game" },
+          { name: "White", value: "Player1" },
+        ])
+      );
+      expect(lines).toEqual([
+        '[event "Test Game"]',
+        '[Site "?"]',
+        '[Date "????.??.??"]',
+        '[Round "?"]',
+        '[White "Player1"]',
+        '[Black "Player2"]',
+        '[Result "1-0"]',
+        '[WhiteElo "2800"]',
+      ]);
+    });
+
+    it("should write defaults for a game without headers", () => {
+      const lines = formatHeaders(game(null));
+      expect(lines.map((line) => line.split(" ")[0].slice(1))).toEqual(
+        SEVEN_TAG_ROSTER
+      );
+    });
+
+    it("should escape tag values", () => {
+      const lines = formatHeaders(game([{ name: "Event", value: 'A "B"' }]));
+      expect(lines[0]).toBe('[Event "A \\"B\\""]');
+    });
+  });
+
+  describe("parsePGNDate", () => {
+    it("should parse full and partial dates", () => {
+      expect(parsePGNDate("2024.03.15")).toEqual({
+        year: 2024,
+        month: 3,
+        day: 15,
+      });
+      expect(parsePGNDate("2024.??.??")).toEqual({
+        year: 2024,
+        month: null,
+        day: null,
+      });
+      expect(parsePGNDate("????.??.??")).toEqual({
+        year: null,
+        month: null,
+        day: null,
+      });
+    });
+
+    it("should reject invalid dates", () => {
+      expect(parsePGNDate(undefined)).toBeNull();
+      expect(parsePGNDate("2024-03-15")).toBeNull();
+      expect(parsePGNDate("2024.13.01")).toBeNull();
+      expect(parsePGNDate("2024.01.00")).toBeNull();
+    });
+  });
+
+  describe("protecting escaped values", () => {
+    it("should round-trip escaped tag values", () => {
+      const pgn = '[Event "A \\"B\\" C:\\\\"]\n[Site "Plain"]\n\n*';
+      const protectedPGN = protectHeaderValues(pgn);
+      expect(protectedPGN).not.toContain("\\");
+      expect(protectedPGN).toContain('[Site "Plain"]');
+
+      const games = pgnParser.parse(protectedPGN);
+      restoreHeaderValues(games);
+      expect(games[0].headers).toEqual([
+        { name: "Event", value: 'A "B" C:\\' },
+        { name: "Site", value: "Plain" },
+      ]);
+    });
+  });
+});
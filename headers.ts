@@ -0,0 +1,143 @@
+import type { Header, ParsedPGN } from "pgn-parser";
+
+/** The Seven Tag Roster, in the order PGN export format writes it */
+export const SEVEN_TAG_ROSTER = [
+  "Event",
+  "Site",
+  "Date",
+  "Round",
+  "White",
+  "Black",
+  "Result",
+];
+
+/** Values written for roster tags a game does not have */
+const ROSTER_DEFAULTS: Record<string, string> = {
+  Event: "?",
+  Site: "?",
+  Date: "????.??.??",
+  Round: "?",
+  White: "?",
+  Black: "?",
+};
+
+/** A Date tag value, with null for the parts written as question marks */
+export type PGNDate = {
+  year: number | null;
+  month: number | null;
+  day: number | null;
+};
+
+/** Stand-ins for escaped characters in tag values, which pgn-parser rejects */
+const ESCAPED_QUOTE = "\uE000";
+const ESCAPED_BACKSLASH = "\uE001";
+
+/** Matches a tag pair, capturing the value with its escape sequences */
+const TAG_PAIR = /(\[\s*[A-Za-z0-9_]+\s+")((?:[^"\\\n]|\\.)*)("\s*\])/g;
+
+/**
+ * Finds a header by name, ignoring case
+ * @param headers - The headers of a game
+ * @param name - The tag name
+ * @returns The header, or undefined if the game does not have it
+ */
+export function findHeader(
+  headers: Array<Header> | null | undefined,
+  name: string
+): Header | undefined {
+  if (!headers) return undefined;
+  return headers.find((h) => h.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Parses a PGN date such as "2024.03.15", "2024.??.??" or "????.??.??"
+ * @param value - The value of a Date tag
+ * @returns The date, or null if the value is not a PGN date
+ */
+export function parsePGNDate(value: string | undefined): PGNDate | null {
+  const match = (value || "").match(
+    /^(\d{4}|\?{4})\.(\d{2}|\?{2})\.(\d{2}|\?{2})$/
+  );
+  if (!match) return null;
+
+  const [year, month, day] = match
+    .slice(1)
+    .map((part) => (part.startsWith("?") ? null : parseInt(part, 10)));
+  const invalid = (part: number | null, max: number) =>
+    part !== null && (part < 1 || part > max);
+  if (invalid(month, 12) || invalid(day, 31)) return null;
+  return { year, month, day };
+}
+
+/**
+ * Escapes quotes and backslashes in a tag value
+ * @param value - The raw tag value
+ * @returns The value as written between the quotes of a tag pair
+ */
+export function escapeHeaderValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Resolves the escape sequences of a tag value
+ * @param value - The value as written between the quotes of a tag pair
+ * @returns The raw tag value
+ */
+export function unescapeHeaderValue(value: string): string {
+  return value.replace(/\\(["\\])/g, "$1");
+}
+
+/**
+ * Formats the tag pairs of a game: the Seven Tag Roster first, in order and
+ * with default values for missing tags, then the other tags as they are
+ * @param parsedPGN - The game
+ * @returns One line per tag pair
+ */
+export function formatHeaders(parsedPGN: ParsedPGN): Array<string> {
+  const headers = parsedPGN.headers || [];
+  const roster = SEVEN_TAG_ROSTER.map((name) => {
+    const header = findHeader(headers, name);
+    if (header) return header;
+    const value = name === "Result" ? parsedPGN.result : ROSTER_DEFAULTS[name];
+    return { name, value };
+  });
+  const others = headers.filter(
+    (h) => !SEVEN_TAG_ROSTER.some((name) => findHeader([h], name))
+  );
+
+  return [...roster, ...others].map(
+    (header) => `[${header.name} "${escapeHeaderValue(header.value)}"]`
+  );
+}
+
+/**
+ * Replaces escaped quotes and backslashes in tag values with stand-in
+ * characters, so that pgn-parser accepts them
+ * @param pgn - The PGN string
+ * @returns The PGN string with protected tag values
+ */
+export function protectHeaderValues(pgn: string): string {
+  return pgn.replace(TAG_PAIR, (tag, start, value, end) =>
+    value.includes("\\")
+      ? start +
+        value.replace(/\\(["\\])/g, (_: string, c: string) =>
+          c === '"' ? ESCAPED_QUOTE : ESCAPED_BACKSLASH
+        ) +
+        end
+      : tag
+  );
+}
+
+/**
+ * Restores the characters replaced by protectHeaderValues in parsed games
+ * @param games - The parsed games, updated in place
+ */
+export function restoreHeaderValues(games: Array<ParsedPGN>): void {
+  for (const game of games) {
+    for (const header of game.headers || []) {
+      header.value = header.value
+        .replace(new RegExp(ESCAPED_QUOTE, "g"), '"')
+        .replace(new RegExp(ESCAPED_BACKSLASH, "g"), "\\");
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { Chess } from "void57-chess";
 import PGNManager, { FEN_START_POSITION, FEN_EMPTY_POSITION } from "./index";
-import { Move } from "pgn-parser";
+import { Move, Rav } from "pgn-parser";
 
 describe("PGNManager", () => {
   const simplePGN = `[Event "Test Game"]
@@ -487,6 +487,1201 @@ describe("PGNManager", () => {
     });
   });
 
+  describe("Delete Variations and Annotations", () => {
+    const annotatedPGN = `{Intro} 1. e4! {Best} e5 (1... c5 $14 {Sicilian} 2. Nf3) (1... e6) 2. Nf3 *`;
+
+    it("should delete the variation when deleting its first move", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const nf3 = manager.getMove(3);
+      manager.deleteMove(4);
+      expect(nf3.ravs).toBeUndefined();
+      expect(manager.pgn).toContain("1. e4 e5 2. Nf3 Nc6 3. Bb5 a6");
+    });
+
+    it("should delete a single variation", () => {
+      const manager = new PGNManager(annotatedPGN);
+      const rav = manager.getParentRav(manager.getMove(3)) as Rav;
+      manager.deleteVariation(rav);
+      expect(manager.pgn).toContain("e5 (1... e6) 2. Nf3\n*");
+      expect(() => manager.deleteVariation(rav)).toThrow(
+        "Invalid 'variation' parameter while deleting variation"
+      );
+    });
+
+    it("should delete moves from a move with deleteFrom", () => {
+      const manager = new PGNManager(simplePGN);
+      manager.deleteFrom(manager.getMove(3));
+      expect(manager.parsedPGN.moves.map((m) => m.move)).toEqual(["e4", "e5"]);
+    });
+
+    it("should keep the move itself with truncateAfter", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      manager.truncateAfter(4);
+      expect(manager.pgn).toContain("2. Nf3 (2. f4) 2... Nc6");
+      expect(() => manager.truncateAfter(99)).toThrow(
+        "Invalid 'move' parameter while truncating moves"
+      );
+    });
+
+    it("should strip a game to its main line", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      manager.deleteAllVariations();
+      expect(manager.pgn).toContain("1. e4 e5 2. Nf3 Nc6 3. Bb5 a6\n1-0");
+      expect(manager.getMove(4).move).toBe("Nc6");
+    });
+
+    it("should delete all comments", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.deleteComments();
+      expect(manager.pgn).toContain(
+        "1. e4! e5 (1... c5 $14 2. Nf3) (1... e6) 2. Nf3\n*"
+      );
+      expect(manager.pgn).not.toContain("{");
+    });
+
+    it("should delete all NAGs", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.deleteNags();
+      expect(manager.getNags(1)).toEqual([]);
+      expect(manager.pgn).toContain(
+        "1. e4 {Best} e5 (1... c5 {Sicilian} 2. Nf3) (1... e6) 2. Nf3\n*"
+      );
+    });
+  });
+
+  describe("Validation", () => {
+    const illegalPGN = `1. e4 e5 2. Nf5 Nc6 3. Bb5 *`;
+    const illegalVariationPGN = `1. e4 e5 (1... c5 2. Nf5 Nc6) 2. Nf3 *`;
+
+    it("should report no errors for a legal game", () => {
+      const manager = new PGNManager(simplePGN);
+      expect(manager.errors).toEqual([]);
+      expect(manager.validate()).toEqual([]);
+    });
+
+    it("should report an illegal move with its position", () => {
+      const manager = new PGNManager(illegalPGN);
+      const [error] = manager.errors;
+
+      expect(error.reason).toBe("illegal-move");
+      expect(error.san).toBe("Nf5");
+      expect(error.move).toBe(manager.getMove(3));
+      expect(error.moveNumber).toBe(2);
+      expect(error.color).toBe("w");
+      expect(error.variationPath).toEqual([]);
+      expect(error.fen).toBe(manager.getMoveFen(2));
+      expect(error.message).toBe("Illegal move 2. Nf5");
+    });
+
+    it("should report the moves following an illegal move", () => {
+      const manager = new PGNManager(illegalPGN);
+      expect(manager.errors.map((e) => [e.reason, e.san])).toEqual([
+        ["illegal-move", "Nf5"],
+        ["unreachable-move", "Nc6"],
+        ["unreachable-move", "Bb5"],
+      ]);
+      expect(manager.errors[1].message).toBe(
+        "Move 2... Nc6 follows an illegal move"
+      );
+    });
+
+    it("should keep the last legal position after an illegal move", () => {
+      const manager = new PGNManager(illegalPGN);
+      expect(manager.getMoveFen(3)).toBe(manager.getMoveFen(2));
+      expect(manager.getMoveFen(5)).toBe(manager.getMoveFen(2));
+      expect(manager.getMoveColor(4)).toBe("b");
+      expect(manager.getMoveColor(5)).toBe("w");
+    });
+
+    it("should report the variation path of an illegal move", () => {
+      const manager = new PGNManager(illegalVariationPGN);
+      expect(manager.errors).toHaveLength(2);
+      expect(manager.errors[0].san).toBe("Nf5");
+      expect(manager.errors[0].variationPath).toEqual([1, 0]);
+      expect(manager.getMoveFen(manager.getLastMove())).not.toBe(
+        manager.getMoveFen(2)
+      );
+    });
+
+    it("should throw on illegal moves in strict mode", () => {
+      expect(() => new PGNManager(illegalPGN, { mode: "strict" })).toThrow(
+        "Illegal move 2. Nf5"
+      );
+      expect(
+        () => new PGNManager(simplePGN, { mode: "strict" })
+      ).not.toThrow();
+    });
+
+    it("should re-validate changes made to the parsed game", () => {
+      const manager = new PGNManager(simplePGN);
+      manager.parsedPGN.moves[2].move = "Nf5";
+      expect(manager.validate()).toHaveLength(8);
+      expect(manager.errors[0].san).toBe("Nf5");
+    });
+  });
+
+  describe("NAGs", () => {
+    const annotatedPGN = `1. e4! $14 e5 2. Nf3 Nc6?! 3. Bb5 $1 *`;
+
+    it("should read NAGs and suffix annotations", () => {
+      const manager = new PGNManager(annotatedPGN);
+      expect(manager.getNags(1)).toEqual(["$1", "$14"]);
+      expect(manager.getNags(2)).toEqual([]);
+      expect(manager.getNags(4)).toEqual(["$6"]);
+      expect(manager.getMove(1).move).toBe("e4");
+    });
+
+    it("should preserve NAGs when the PGN is regenerated", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.pushMove(5, { from: "a7", to: "a6" });
+      expect(manager.pgn).toContain("1. e4! $14 e5 2. Nf3 Nc6?! 3. Bb5! a6");
+    });
+
+    it("should add a NAG to a move", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.addNag(2, "?");
+      manager.addNag(manager.getMove(2), 16);
+      expect(manager.getNags(2)).toEqual(["$2", "$16"]);
+      expect(manager.pgn).toContain("e5? $16");
+    });
+
+    it("should not add the same NAG twice", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.addNag(1, "!");
+      expect(manager.getNags(1)).toEqual(["$1", "$14"]);
+    });
+
+    it("should remove a NAG from a move", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.removeNag(1, "$1");
+      expect(manager.getNags(1)).toEqual(["$14"]);
+      manager.removeNag(1, "⩲");
+      expect(manager.getMove(1).nags).toBeUndefined();
+      expect(manager.pgn).toContain("1. e4 e5");
+    });
+
+    it("should throw error for invalid move or NAG", () => {
+      const manager = new PGNManager(annotatedPGN);
+      expect(() => manager.addNag(null as any, "!")).toThrow(
+        "Invalid 'move' parameter while adding nag"
+      );
+      expect(() => manager.addNag(1, "foo")).toThrow("Invalid NAG: foo");
+    });
+  });
+
+  describe("Comments", () => {
+    const commentedPGN = `{Annotated by Player1}
+[Event "Test Game"]
+
+{Game comment} 1. e4 {Best by test} {[%clk 0:03:00]} e5 2. Nf3 ({Gambit} 2. f4 exf4) 2... Nc6 *`;
+
+    let manager: PGNManager;
+
+    beforeEach(() => {
+      manager = new PGNManager(commentedPGN);
+    });
+
+    it("should get the comments after a move", () => {
+      expect(manager.getComments(1)).toEqual(["Best by test"]);
+      expect(manager.getComments(2)).toEqual([]);
+    });
+
+    it("should get game and variation comments", () => {
+      const variation = manager.getParentRav(4) as Rav;
+      expect(manager.getComments(manager.parsedPGN)).toEqual(["Game comment"]);
+      expect(
+        manager.getComments(manager.parsedPGN, { aboveHeader: true })
+      ).toEqual(["Annotated by Player1"]);
+      expect(manager.getComments(variation)).toEqual(["Gambit"]);
+    });
+
+    it("should get the comments before a move", () => {
+      expect(manager.getComments(1, { before: true })).toEqual([
+        "Game comment",
+      ]);
+      expect(manager.getComments(2, { before: true })).toEqual([
+        "Best by test",
+      ]);
+      expect(manager.getComments(4, { before: true })).toEqual(["Gambit"]);
+    });
+
+    it("should set a comment and keep command annotations", () => {
+      manager.setComment(1, "Also good");
+      expect(manager.getComments(1)).toEqual(["Also good"]);
+      expect(manager.pgn).toContain("1. e4 {Also good} {[%clk 0:03:00]} e5");
+    });
+
+    it("should add a comment", () => {
+      manager.addComment(manager.getMove(2), "Symmetrical");
+      manager.addComment(2, "Classical");
+      expect(manager.getComments(2)).toEqual(["Symmetrical", "Classical"]);
+      expect(manager.pgn).toContain("e5 {Symmetrical} {Classical} 2. Nf3");
+    });
+
+    it("should add a comment before a move", () => {
+      manager.addComment(3, "Developing", { before: true });
+      expect(manager.getComments(2)).toEqual(["Developing"]);
+
+      const variation = manager.getParentRav(5) as Rav;
+      manager.setComment(5, "Accepted", { before: true });
+      expect(manager.getComments(4)).toEqual(["Accepted"]);
+      expect(manager.getComments(variation)).toEqual(["Gambit"]);
+    });
+
+    it("should edit game comments", () => {
+      manager.setComment(manager.parsedPGN, "Rewritten");
+      manager.removeComment(manager.parsedPGN, undefined, {
+        aboveHeader: true,
+      });
+      expect(manager.parsedPGN.comments).toEqual([{ text: "Rewritten" }]);
+      expect(manager.parsedPGN.comments_above_header).toBeNull();
+      expect(manager.pgn).toContain("{Rewritten}");
+      expect(manager.pgn).not.toContain("Annotated by Player1");
+    });
+
+    it("should edit variation comments", () => {
+      const variation = manager.getParentRav(4) as Rav;
+      manager.addComment(variation, "Risky");
+      expect(manager.pgn).toContain("({Gambit} {Risky} 2. f4 exf4)");
+      manager.removeComment(variation);
+      expect(variation.comments_before_moves).toBeUndefined();
+      expect(manager.pgn).toContain("(2. f4 exf4)");
+    });
+
+    it("should remove a comment by index", () => {
+      manager.addComment(1, "Theory");
+      manager.removeComment(1, 0);
+      expect(manager.getComments(1)).toEqual(["Theory"]);
+      expect(() => manager.removeComment(1, 1)).toThrow(
+        "Invalid comment index"
+      );
+    });
+
+    it("should reload the regenerated PGN with the same comments", () => {
+      manager.addComment(2, "Symmetrical");
+      const reloaded = new PGNManager(manager.pgn);
+      expect(new PGNManager(reloaded.parsedPGN).pgn).toBe(manager.pgn);
+      expect(reloaded.getComments(reloaded.getParentRav(4) as Rav)).toEqual([
+        "Gambit",
+      ]);
+    });
+
+    it("should throw error for invalid targets", () => {
+      expect(() => manager.getComments(null as any)).toThrow(
+        "Invalid 'move' parameter while getting comments"
+      );
+      expect(() =>
+        manager.setComment({ moves: [], result: null }, "text")
+      ).toThrow("Invalid 'variation' parameter while setting comment");
+    });
+  });
+
+  describe("Headers", () => {
+    let manager: PGNManager;
+
+    beforeEach(() => {
+      manager = new PGNManager(simplePGN);
+    });
+
+    it("should get a header ignoring case", () => {
+      expect(manager.getHeader("white")).toBe("Player1");
+      expect(manager.getHeader("WHITE")).toBe("Player1");
+      expect(manager.getHeader("Annotator")).toBeUndefined();
+    });
+
+    it("should set an existing header", () => {
+      manager.setHeader("white", "Carlsen, Magnus");
+      expect(manager.headers[4]).toEqual({
+        name: "White",
+        value: "Carlsen, Magnus",
+      });
+      expect(manager.pgn).toContain('[White "Carlsen, Magnus"]');
+    });
+
+    it("should add a new header after the Seven Tag Roster", () => {
+      manager.setHeader("Annotator", 'The "Expert"');
+      expect(manager.getHeader("Annotator")).toBe('The "Expert"');
+      expect(manager.pgn).toContain(
+        '[Result "1-0"]\n[Annotator "The \\"Expert\\""]'
+      );
+
+      const reloaded = new PGNManager(manager.pgn);
+      expect(reloaded.getHeader("Annotator")).toBe('The "Expert"');
+    });
+
+    it("should remove a header", () => {
+      expect(manager.removeHeader("site")).toBe(true);
+      expect(manager.removeHeader("site")).toBe(false);
+      expect(manager.getHeader("Site")).toBeUndefined();
+      expect(manager.pgn).toContain('[Site "?"]');
+    });
+
+    it("should write roster defaults for a game without headers", () => {
+      const manager = new PGNManager("1. e4 e5 *");
+      manager.setHeader("White", "Player1");
+      expect(manager.pgn).toBe(`[Event "?"]
+[Site "?"]
+[Date "????.??.??"]
+[Round "?"]
+[White "Player1"]
+[Black "?"]
+[Result "*"]
+
+1. e4 e5
+*`);
+    });
+
+    it("should throw error for invalid header name", () => {
+      expect(() => manager.setHeader("Bad Name", "x")).toThrow(
+        "Invalid header name"
+      );
+    });
+
+    it("should reload moves when the starting position changes", () => {
+      const manager = new PGNManager("1. e4 e5 *");
+      const fen =
+        "rnbqkbnr/ppp1pppp/8/3p4/3P4/8/PPP1PPPP/RNBQKBNR w KQkq - 0 2";
+      manager.setHeader("FEN", fen);
+
+      expect(manager.getHeader("SetUp")).toBe("1");
+      expect(manager.getMoveFen(1)).toBe(
+        "rnbqkbnr/ppp1pppp/8/3p4/3PP3/8/PPP2PPP/RNBQKBNR b KQkq - 0 2"
+      );
+
+      manager.removeHeader("FEN");
+      expect(manager.getHeader("SetUp")).toBeUndefined();
+      expect(manager.getMoveFen(1)).toBe(
+        "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1"
+      );
+    });
+
+    it("should ignore the FEN header when SetUp is 0", () => {
+      const manager = new PGNManager(pgnWithStartingPosition);
+      manager.setHeader("SetUp", "0");
+      manager.pushMove(0, { from: "e2", to: "e4" });
+      expect(manager.getMoveFen(1)).toBe(
+        "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1"
+      );
+    });
+
+    it("should reload moves when the variant changes", () => {
+      manager.setHeader("Variant", "Chess960");
+      expect(manager.isChess960).toBe(true);
+      manager.removeHeader("Variant");
+      expect(manager.isChess960).toBe(false);
+    });
+
+    it("should restore the headers if the moves become illegal in strict mode", () => {
+      const manager = new PGNManager("1. e4 e5 *", { mode: "strict" });
+      const fen = manager.getMoveFen(1);
+      expect(() =>
+        manager.setHeader("FEN", "4k3/8/8/8/8/8/8/4K3 w - - 0 1")
+      ).toThrow("Illegal move 1. e4");
+      expect(manager.getHeader("FEN")).toBeUndefined();
+      expect(manager.getMoveFen(1)).toBe(fen);
+    });
+  });
+
+  describe("Result and Termination", () => {
+    const foolsMatePGN = `1. f3 e5 2. g4 *`;
+
+    it("should set the result in the movetext and the header", () => {
+      const manager = new PGNManager(simplePGN);
+      manager.setResult("1/2-1/2");
+      expect(manager.parsedPGN.result).toBe("1/2-1/2");
+      expect(manager.getHeader("Result")).toBe("1/2-1/2");
+      expect(manager.pgn).toContain('[Result "1/2-1/2"]');
+      expect(manager.pgn.endsWith("\n1/2-1/2")).toBe(true);
+    });
+
+    it("should keep the result in sync when the header is set", () => {
+      const manager = new PGNManager("1. e4 e5 *");
+      manager.setHeader("result", "0-1");
+      expect(manager.parsedPGN.result).toBe("0-1");
+      expect(manager.headers).toEqual([{ name: "Result", value: "0-1" }]);
+    });
+
+    it("should throw error for invalid result", () => {
+      const manager = new PGNManager(simplePGN);
+      expect(() => manager.setResult("2-0" as any)).toThrow("Invalid result");
+      expect(() => manager.setHeader("Result", "white")).toThrow(
+        "Invalid result"
+      );
+    });
+
+    it("should set the result when a pushed move mates", () => {
+      const manager = new PGNManager(foolsMatePGN);
+      manager.pushMove(3, { from: "d8", to: "h4" });
+      expect(manager.parsedPGN.result).toBe("0-1");
+      expect(manager.getHeader("Result")).toBe("0-1");
+    });
+
+    it("should set the result passed to pushMove on the main line", () => {
+      const manager = new PGNManager("1. e4 e5 *");
+      manager.pushMove(2, { from: "g1", to: "f3" }, "1-0");
+      expect(manager.parsedPGN.result).toBe("1-0");
+    });
+
+    it("should not change the game result for a variation", () => {
+      const manager = new PGNManager(simplePGN);
+      const move = manager.pushMove(1, { from: "e7", to: "e6" }, "0-1");
+      expect(manager.getParentRav(move)?.result).toBe("0-1");
+      expect(manager.parsedPGN.result).toBe("1-0");
+    });
+
+    it("should leave a variation pushed without a result unfinished", () => {
+      const manager = new PGNManager(simplePGN);
+      const move = manager.pushMove(1, { from: "e7", to: "e6" });
+      expect(manager.getParentRav(move)?.result).toBeNull();
+      expect(manager.pgn).toContain("(1... e6)");
+    });
+
+    it("should detect checkmate", () => {
+      const manager = new PGNManager(`1. f3 e5 2. g4 Qh4# *`);
+      expect(manager.getTermination()).toEqual({
+        reason: "checkmate",
+        result: "0-1",
+      });
+    });
+
+    it("should detect stalemate", () => {
+      const manager = new PGNManager(
+        `1. e3 a5 2. Qh5 Ra6 3. Qxa5 h5 4. h4 Rah6 5. Qxc7 f6 6. Qxd7+ Kf7 7. Qxb7 Qd3 8. Qxb8 Qh7 9. Qxc8 Kg6 10. Qe6 *`
+      );
+      expect(manager.getTermination()).toEqual({
+        reason: "stalemate",
+        result: "1/2-1/2",
+      });
+    });
+
+    it("should detect insufficient material", () => {
+      const manager = new PGNManager(`[FEN "4k3/8/8/8/8/8/8/4KN2 w - - 0 1"]
+
+*`);
+      expect(manager.getTermination()?.reason).toBe("insufficient-material");
+    });
+
+    it("should detect threefold repetition", () => {
+      const manager = new PGNManager(
+        `1. Nf3 Nf6 2. Ng1 Ng8 3. Nf3 Nf6 4. Ng1 Ng8 *`
+      );
+      expect(manager.getTermination()?.reason).toBe("threefold-repetition");
+    });
+
+    it("should detect the fifty-move rule", () => {
+      const manager = new PGNManager(`[FEN "4k3/8/8/8/8/8/8/R3K3 w - - 99 80"]
+
+80. Ra2 *`);
+      expect(manager.getTermination()?.reason).toBe("fifty-move-rule");
+    });
+
+    it("should return null for a game that goes on", () => {
+      const manager = new PGNManager(simplePGN);
+      expect(manager.getTermination()).toBeNull();
+    });
+  });
+
+  describe("Variation Editing", () => {
+    const siblingsPGN = `1. e4 e5 (1... c5) (1... e6) 2. Nf3 *`;
+
+    it("should promote a variation over its parent line", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      manager.promoteVariation(4);
+      expect(manager.pgn).toContain(
+        "1. e4 e5 2. f4 (2. Nf3 Nc6 3. Bb5 a6) 2... exf4 3. Nf3\n1-0"
+      );
+      expect(manager.getMove(3).move).toBe("f4");
+      expect(manager.getParentRav(manager.getMove(3))).toBe(manager.parsedPGN);
+    });
+
+    it("should keep the place of the demoted line among the variations", () => {
+      const manager = new PGNManager(siblingsPGN);
+      const c5 = manager.getMove(3);
+      manager.promoteVariation(c5);
+      expect(manager.pgn).toContain("1. e4 c5 (1... e5 2. Nf3) (1... e6)\n*");
+    });
+
+    it("should promote nested variations to the main line", () => {
+      const manager = new PGNManager(
+        `1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 *`
+      );
+      const d5 = manager.getMove(6);
+      expect(d5.move).toBe("d5");
+      manager.promoteToMainline(d5);
+      expect(manager.pgn).toContain(
+        "1. e4 c5 (1... e5 2. Nf3) 2. c3 (2. Nf3 d6) 2... d5\n*"
+      );
+      expect(manager.getParentRav(d5)).toBe(manager.parsedPGN);
+    });
+
+    it("should reorder sibling variations", () => {
+      const manager = new PGNManager(siblingsPGN);
+      const e6 = manager.getMove(4);
+      expect(manager.moveVariationUp(e6)).toBe(true);
+      expect(manager.pgn).toContain("1. e4 e5 (1... e6) (1... c5) 2. Nf3\n*");
+      expect(manager.moveVariationUp(e6)).toBe(false);
+      expect(manager.moveVariationDown(e6)).toBe(true);
+      expect(manager.moveVariationDown(e6)).toBe(false);
+      expect(manager.pgn).toContain("1. e4 e5 (1... c5) (1... e6) 2. Nf3\n*");
+    });
+
+    it("should throw error for moves in the main line", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      expect(() => manager.promoteVariation(1)).toThrow(
+        "Move is not in a variation"
+      );
+      expect(() => manager.moveVariationUp(99)).toThrow(
+        "Invalid 'move' parameter while moving variation"
+      );
+    });
+  });
+
+  describe("Undo and Redo", () => {
+    it("should undo and redo a pushed move", () => {
+      const manager = new PGNManager(simplePGN);
+      const original = manager.pgn;
+      expect(manager.canUndo).toBe(false);
+
+      manager.pushMove(10, { from: "f1", to: "e1" });
+      const edited = manager.pgn;
+      expect(manager.canUndo).toBe(true);
+
+      expect(manager.undo()).toBe(true);
+      expect(manager.pgn).toBe(original);
+      expect(manager.getLastMove().move).toBe("Be7");
+      expect(manager.canRedo).toBe(true);
+
+      expect(manager.redo()).toBe(true);
+      expect(manager.pgn).toBe(edited);
+      expect(manager.getLastMove().move).toBe("Re1");
+    });
+
+    it("should undo deletions and annotations", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const original = manager.pgn;
+      manager.deleteMove(4);
+      manager.addNag(1, "!");
+      manager.setHeader("White", "Someone");
+
+      manager.undo();
+      manager.undo();
+      manager.undo();
+      expect(manager.pgn).toBe(original);
+      expect(manager.undo()).toBe(false);
+    });
+
+    it("should keep the parsed game object across undo", () => {
+      const manager = new PGNManager(simplePGN);
+      const game = manager.parsedPGN;
+      manager.deleteMove(3);
+      manager.undo();
+      expect(manager.parsedPGN).toBe(game);
+      expect(game.moves).toHaveLength(10);
+    });
+
+    it("should clear the redo history on a new edit", () => {
+      const manager = new PGNManager(simplePGN);
+      manager.addNag(1, "!");
+      manager.undo();
+      manager.addNag(2, "?");
+      expect(manager.canRedo).toBe(false);
+      expect(manager.redo()).toBe(false);
+    });
+
+    it("should not record edits that change nothing", () => {
+      const manager = new PGNManager(simplePGN);
+      manager.pushMove(0, { from: "e2", to: "e4" });
+      expect(manager.canUndo).toBe(false);
+    });
+
+    it("should limit the history to the configured depth", () => {
+      const manager = new PGNManager(simplePGN, { historyDepth: 2 });
+      manager.addNag(1, "!");
+      manager.addNag(2, "?");
+      manager.addNag(3, "!?");
+      expect(manager.undo()).toBe(true);
+      expect(manager.undo()).toBe(true);
+      expect(manager.undo()).toBe(false);
+      expect(manager.getNags(1)).toEqual(["$1"]);
+    });
+
+    it("should undo a transaction as one edit", () => {
+      const manager = new PGNManager(simplePGN);
+      const original = manager.pgn;
+      manager.transaction(() => {
+        manager.deleteMove(9);
+        manager.addComment(8, "Resigns");
+        manager.setResult("1-0");
+      });
+      expect(manager.pgn).toContain("{Resigns}");
+      manager.undo();
+      expect(manager.pgn).toBe(original);
+      expect(manager.canUndo).toBe(false);
+    });
+
+    it("should roll back a transaction that throws", () => {
+      const manager = new PGNManager(simplePGN);
+      const original = manager.pgn;
+      expect(() =>
+        manager.transaction(() => {
+          manager.deleteMove(9);
+          manager.addNag(1, "not a nag");
+        })
+      ).toThrow("Invalid NAG");
+      expect(manager.pgn).toBe(original);
+      expect(manager.canUndo).toBe(false);
+    });
+  });
+
+  describe("Move Ids and Paths", () => {
+    it("should give every move a unique id", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const ids = manager.parsedPGN.moves.map((move) => move.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(manager.getMoveById(ids[2] as string)).toBe(manager.getMove(3));
+      expect(manager.getMoveById("unknown")).toBeUndefined();
+    });
+
+    it("should keep ids when moves are added and deleted", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const nc6 = manager.getMove(7);
+      const id = nc6.id as string;
+
+      manager.pushMove(4, { from: "d7", to: "d5" });
+      expect(manager.getMove(7)).not.toBe(nc6);
+      expect(manager.getMoveById(id)).toBe(nc6);
+
+      manager.deleteMove(4);
+      expect(manager.getMoveById(id)).toBe(nc6);
+    });
+
+    it("should keep ids across undo and redo", () => {
+      const manager = new PGNManager(simplePGN);
+      const id = manager.getMove(3).id as string;
+      manager.deleteMove(2);
+      expect(manager.getMoveById(id)).toBeUndefined();
+      manager.undo();
+      expect(manager.getMoveById(id)?.move).toBe("Nf3");
+    });
+
+    it("should accept ids wherever moves are accepted", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const id = manager.getMove(4).id as string;
+      expect(manager.getMoveFen(id)).toBe(manager.getMoveFen(4));
+      expect(manager.nextMove(id).move).toBe("exf4");
+      manager.addNag(id, "!");
+      expect(manager.getNags(4)).toEqual(["$1"]);
+    });
+
+    it("should address moves by path", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      expect(manager.getMovePath(2)).toEqual([1]);
+      expect(manager.getMovePath(5)).toEqual([2, 0, 1]);
+      expect(manager.getMoveByPath([2, 0, 1])).toBe(manager.getMove(5));
+      expect(manager.getMoveByPath([2, 1, 0])).toBeUndefined();
+      expect(manager.getMoveByPath([])).toBeUndefined();
+    });
+  });
+
+  describe("Events", () => {
+    it("should emit moveAdded with the move and its path", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const listener = jest.fn();
+      manager.subscribe("moveAdded", listener);
+
+      const move = manager.pushMove(4, { from: "d7", to: "d5" });
+      expect(listener).toHaveBeenCalledWith({ move, path: [2, 0, 1, 0, 0] });
+    });
+
+    it("should emit moveDeleted with every deleted move", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const listener = jest.fn();
+      manager.subscribe("moveDeleted", listener);
+
+      const nf3 = manager.getMove(3);
+      manager.deleteMove(3);
+      expect(listener).toHaveBeenCalledTimes(1);
+      const event = listener.mock.calls[0][0];
+      expect(event.move).toBe(nf3);
+      expect(event.path).toEqual([2]);
+      expect(event.moves.map((m: Move) => m.move)).toEqual([
+        "Nf3",
+        "f4",
+        "exf4",
+        "Nf3",
+        "Nc6",
+        "Bb5",
+        "a6",
+      ]);
+    });
+
+    it("should emit variationPromoted", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const listener = jest.fn();
+      manager.subscribe("variationPromoted", listener);
+
+      const f4 = manager.getMove(4);
+      manager.promoteVariation(f4);
+      expect(listener).toHaveBeenCalledWith({ move: f4, path: [2] });
+    });
+
+    it("should emit headerChanged and resultChanged", () => {
+      const manager = new PGNManager(simplePGN);
+      const headers = jest.fn();
+      const results = jest.fn();
+      manager.subscribe("headerChanged", headers);
+      manager.subscribe("resultChanged", results);
+
+      manager.setHeader("FEN", "4k3/8/8/8/8/8/8/4K2R w K - 0 1");
+      expect(headers.mock.calls.map((call) => call[0].name)).toEqual([
+        "FEN",
+        "SetUp",
+      ]);
+
+      manager.removeHeader("Round");
+      expect(headers).toHaveBeenLastCalledWith({
+        name: "Round",
+        value: undefined,
+      });
+
+      manager.setResult("0-1");
+      expect(results).toHaveBeenCalledWith({ result: "0-1" });
+      expect(headers).toHaveBeenLastCalledWith({ name: "Result", value: "0-1" });
+    });
+
+    it("should emit commentChanged for the move holding the comment", () => {
+      const manager = new PGNManager(simplePGN);
+      const listener = jest.fn();
+      manager.subscribe("commentChanged", listener);
+
+      manager.addComment(2, "Solid");
+      manager.setComment(1, "Start", { before: true });
+      expect(listener).toHaveBeenNthCalledWith(1, {
+        move: manager.getMove(2),
+        path: [1],
+      });
+      expect(listener).toHaveBeenNthCalledWith(2, { move: null, path: null });
+    });
+
+    it("should stop calling unsubscribed listeners", () => {
+      const manager = new PGNManager(simplePGN);
+      const listener = jest.fn();
+      const unsubscribe = manager.subscribe("moveDeleted", listener);
+      unsubscribe();
+      manager.deleteMove(10);
+
+      manager.subscribe("moveDeleted", listener);
+      manager.unsubscribe("moveDeleted", listener);
+      manager.deleteMove(9);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should emit events of a transaction once it succeeds", () => {
+      const manager = new PGNManager(simplePGN);
+      const listener = jest.fn();
+      manager.subscribe("moveDeleted", listener);
+
+      manager.transaction(() => {
+        manager.deleteMove(10);
+        expect(listener).not.toHaveBeenCalled();
+      });
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      expect(() =>
+        manager.transaction(() => {
+          manager.deleteMove(9);
+          throw Error("Cancelled");
+        })
+      ).toThrow("Cancelled");
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should emit gameRestored on undo and redo", () => {
+      const manager = new PGNManager(simplePGN);
+      const listener = jest.fn();
+      manager.subscribe("gameRestored", listener);
+      manager.deleteMove(10);
+      manager.undo();
+      manager.redo();
+      expect(listener.mock.calls).toEqual([
+        [{ action: "undo" }],
+        [{ action: "redo" }],
+      ]);
+    });
+  });
+
+  describe("Transpositions", () => {
+    const knightsPGN = `1. Nc3 (1. Nf3 Nf6 2. Nc3 Nc6) 1... Nc6 2. Nf3 *`;
+
+    it("should find moves reaching the same position", () => {
+      const manager = new PGNManager(
+        `1. e4 (1. Nf3 Nf6 2. Ng1 Ng8 3. e4) 1... e5 *`
+      );
+      expect(manager.findTranspositions(1)).toEqual([manager.getMove(6)]);
+      expect(manager.findTranspositions(6)).toEqual([manager.getMove(1)]);
+      expect(manager.findTranspositions(2)).toEqual([]);
+    });
+
+    it("should index every move reaching a position", () => {
+      const manager = new PGNManager(knightsPGN);
+      manager.pushMove(7, { from: "g8", to: "f6" });
+      const fen = manager.getMoveFen(5);
+      expect(manager.getPositionMoves(fen)).toEqual([
+        manager.getMove(5),
+        manager.getMove(8),
+      ]);
+      expect(manager.getPositionMoves(FEN_START_POSITION)).toEqual([]);
+    });
+
+    it("should not reuse a transposed move when pushing", () => {
+      const manager = new PGNManager(knightsPGN);
+      const transposed = manager.getMove(5);
+      const move = manager.pushMove(7, { from: "g8", to: "f6" });
+      expect(move).not.toBe(transposed);
+      expect(manager.getParentRav(move)).toBe(manager.parsedPGN);
+      expect(manager.findTranspositions(move)).toEqual([transposed]);
+    });
+
+    it("should reuse an existing continuation when pushing", () => {
+      const manager = new PGNManager(knightsPGN);
+      expect(manager.pushMove(0, { from: "g1", to: "f3" })).toBe(
+        manager.getMove(2)
+      );
+      expect(manager.pushMove(1, { from: "b8", to: "c6" })).toBe(
+        manager.getMove(6)
+      );
+    });
+  });
+
+  describe("Continuations", () => {
+    const candidatesPGN = `1. e4 (1. d4) (1. c4 e5) 1... e5 (1... c5) 2. Nf3 *`;
+
+    it("should list the continuations from the starting position", () => {
+      const manager = new PGNManager(candidatesPGN);
+      const moves = manager.getContinuations().map((move) => move.move);
+      expect(moves).toEqual(["e4", "d4", "c4"]);
+      expect(manager.getContinuations(0)).toEqual(manager.getContinuations());
+    });
+
+    it("should list the main continuation and its alternatives", () => {
+      const manager = new PGNManager(candidatesPGN);
+      const e4 = manager.getMove(1);
+      expect(manager.getContinuations(e4).map((move) => move.move)).toEqual([
+        "e5",
+        "c5",
+      ]);
+      expect(manager.getContinuations(e4.id as string)[0]).toBe(
+        manager.getMove(5)
+      );
+    });
+
+    it("should list continuations inside variations", () => {
+      const manager = new PGNManager(candidatesPGN);
+      const c4 = manager.getMove(3);
+      expect(manager.getContinuations(c4).map((move) => move.move)).toEqual([
+        "e5",
+      ]);
+      expect(manager.getContinuations(manager.getMove(4))).toEqual([]);
+    });
+
+    it("should throw error for invalid move", () => {
+      const manager = new PGNManager(candidatesPGN);
+      expect(() => manager.getContinuations(99)).toThrow(
+        "Invalid 'move' parameter while getting continuations"
+      );
+    });
+  });
+
+  describe("Export", () => {
+    it("should export the main line as SAN", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      expect(manager.toSAN()).toEqual(["e4", "e5", "Nf3", "Nc6", "Bb5", "a6"]);
+    });
+
+    it("should export the line through a variation", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      expect(manager.toSAN(5)).toEqual(["e4", "e5", "f4", "exf4", "Nf3"]);
+      expect(manager.getLine(5).map((move) => move.id)).toEqual(
+        manager.getLine(manager.getMove(6)).map((move) => move.id)
+      );
+    });
+
+    it("should get the move a move is played after", () => {
+      const manager = new PGNManager(pgnWithVariations);
+      const nf3 = manager.getMove(3);
+      const [f4, exf4] = nf3.ravs[0].moves;
+      expect(manager.getParentMove(f4)).toBe(manager.getMove(2));
+      expect(manager.getParentMove(exf4.id)).toBe(f4);
+      expect(manager.getParentMove(1)).toBeNull();
+      expect(manager.resolveMove(nf3.id)).toBe(nf3);
+      expect(manager.resolveMove("unknown")).toBeUndefined();
+      expect(() => manager.getParentMove("unknown")).toThrow(
+        "Invalid 'move' parameter while getting parent move"
+      );
+    });
+
+    it("should export UCI and LAN moves", () => {
+      const manager = new PGNManager(
+        `[FEN "4k3/4P3/8/8/8/8/8/4K2R w K - 0 1"]
+
+1. O-O Kd7 2. e8=Q+ *`
+      );
+      expect(manager.toUCI()).toEqual(["e1g1", "e8d7", "e7e8q"]);
+      expect(manager.toLAN()).toEqual(["O-O", "Ke8-d7", "e7-e8=Q+"]);
+
+      const captures = new PGNManager(`1. e4 d5 2. exd5 *`);
+      expect(captures.toLAN()).toEqual(["e2-e4", "d7-d5", "e4xd5"]);
+    });
+
+    it("should throw error when exporting illegal moves as UCI", () => {
+      const manager = new PGNManager(`1. e4 e5 2. Ke3 *`);
+      expect(manager.toSAN()).toEqual(["e4", "e5", "Ke3"]);
+      expect(() => manager.toUCI()).toThrow("Cannot export illegal move: Ke3");
+    });
+
+    it("should export the game tree as JSON", () => {
+      const manager = new PGNManager(
+        `{Intro} 1. e4 {[%clk 0:03:00]} {Best} e5 $14 (1... c5) *`
+      );
+      const json = manager.toJSON();
+      expect(json.result).toBe("*");
+      expect(json.moves).toHaveLength(2);
+
+      const [e4, e5] = json.moves;
+      expect(e4).toMatchObject({
+        san: "e4",
+        uci: "e2e4",
+        lan: "e2-e4",
+        fen: manager.getMoveFen(1),
+        color: "w",
+        moveNumber: 1,
+        comments: ["Best"],
+        clock: "0:03:00",
+        variations: [],
+      });
+      expect(e5.nags).toEqual(["$14"]);
+      expect(e5.variations[0].moves[0]).toMatchObject({
+        san: "c5",
+        color: "b",
+        moveNumber: 1,
+      });
+      expect(JSON.parse(JSON.stringify(manager))).toEqual(json);
+    });
+
+    it("should build a game from UCI moves", () => {
+      const manager = PGNManager.fromUCI(["e2e4", "e7e5", "g1f3"]);
+      expect(manager.toSAN()).toEqual(["e4", "e5", "Nf3"]);
+      expect(manager.pgn).toContain("1. e4 e5 2. Nf3");
+      expect(manager.canUndo).toBe(false);
+    });
+
+    it("should build a game from UCI moves and a start position", () => {
+      const fen = "k7/4P3/8/8/8/8/8/4K3 w - - 0 1";
+      const manager = PGNManager.fromUCI(["e7e8q"], fen);
+      expect(manager.startFen).toBe(fen);
+      expect(manager.toSAN()).toEqual(["e8=Q+"]);
+      expect(() => PGNManager.fromUCI(["e2e5"])).toThrow("Invalid move");
+      expect(() => PGNManager.fromUCI(["castle"])).toThrow(
+        "Invalid UCI move: castle"
+      );
+    });
+
+    it("should number the moves from the start position", () => {
+      const fen = "4k3/8/8/8/8/8/4P3/4K3 b - - 0 30";
+      const manager = PGNManager.fromUCI(["e8d7", "e2e4", "d7d6"], fen);
+      expect(manager.pgn).toContain("30... Kd7 31. e4 Kd6");
+      expect(manager.getMove(2).move_number).toBe(31);
+    });
+  });
+
+  describe("Command Annotations", () => {
+    const annotatedPGN = `1. e4 { [%eval 0.17] [%clk 0:03:00] } e5 {Solid [%clk 0:02:58] [%cal Gg1f3]} 2. Nf3 {[%csl Rd5,Ye5]} *`;
+
+    it("should read clock, eval, arrows and highlights", () => {
+      const manager = new PGNManager(annotatedPGN);
+      expect(manager.getClock(1)).toBe(180);
+      expect(manager.getEval(1)).toEqual({ type: "pawns", value: 0.17 });
+      expect(manager.getClock(2)).toBe(178);
+      expect(manager.getComments(2)).toEqual(["Solid"]);
+      expect(manager.getArrows(2)).toEqual([
+        { from: "g1", to: "f3", color: "green" },
+      ]);
+      expect(manager.getHighlights(3)).toEqual([
+        { square: "d5", color: "red" },
+        { square: "e5", color: "yellow" },
+      ]);
+      expect(manager.getClock(3)).toBeNull();
+      expect(manager.getEval(3)).toBeNull();
+      expect(manager.getArrows(3)).toEqual([]);
+      expect(() => manager.getClock(9)).toThrow(
+        "Invalid 'move' parameter while getting clock"
+      );
+    });
+
+    it("should set annotations without disturbing the text", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.setClock(2, 170.5);
+      manager.setEval(2, { type: "mate", value: -4, depth: 22 });
+      manager.setElapsedTime(3, 12);
+      manager.setArrows(2, []);
+
+      expect(manager.getClock(2)).toBe(170.5);
+      expect(manager.getEval(2)).toEqual({ type: "mate", value: -4, depth: 22 });
+      expect(manager.getElapsedTime(3)).toBe(12);
+      expect(manager.getComments(2)).toEqual(["Solid"]);
+      expect(manager.pgn).toContain(
+        "e5 {[%clk 0:02:50.5] [%eval #-4,22]} {Solid} 2. Nf3 {[%csl Rd5,Ye5] [%emt 0:00:12]}"
+      );
+
+      const reloaded = new PGNManager(manager.pgn);
+      expect(reloaded.getClock(2)).toBe(170.5);
+      expect(reloaded.getArrows(2)).toEqual([]);
+    });
+
+    it("should keep annotations when comments are edited", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.setComment(2, "Passive");
+      expect(manager.getClock(2)).toBe(178);
+      expect(manager.getComments(2)).toEqual(["Passive"]);
+    });
+
+    it("should throw error on invalid annotations", () => {
+      const manager = new PGNManager(annotatedPGN);
+      expect(() => manager.setClock(1, -5)).toThrow("Invalid clock time");
+      expect(() =>
+        manager.setArrows(1, [{ from: "e2", to: "e9", color: "green" }])
+      ).toThrow("Invalid arrow");
+      expect(manager.getClock(1)).toBe(180);
+      expect(manager.canUndo).toBe(false);
+    });
+
+    it("should undo annotation changes", () => {
+      const manager = new PGNManager(annotatedPGN);
+      manager.setHighlights(3, [{ square: "h7", color: "blue" }]);
+      expect(manager.getHighlights(3)).toEqual([
+        { square: "h7", color: "blue" },
+      ]);
+      manager.undo();
+      expect(manager.getHighlights(3)).toHaveLength(2);
+    });
+  });
+
+  describe("Material", () => {
+    const pgn = `1. e4 d5 2. exd5 Qxd5 3. Nc3 (3. c4 Qe4+) 3... Qa5 *`;
+
+    it("should get the material of the starting position", () => {
+      const material = new PGNManager(pgn).getMaterial();
+      expect(material.value).toEqual({ w: 39, b: 39 });
+      expect(material.captured).toEqual({ w: [], b: [] });
+      expect(material.phase).toBe("opening");
+    });
+
+    it("should track captured pieces and the difference", () => {
+      const manager = new PGNManager(pgn);
+      const afterCapture = manager.getMaterial(3);
+      expect(afterCapture.pieces.b.p).toBe(7);
+      expect(afterCapture.captured).toEqual({ w: [], b: ["p"] });
+      expect(afterCapture.difference).toBe(1);
+      expect(manager.getMaterial(4).captured).toEqual({ w: ["p"], b: ["p"] });
+      expect(() => manager.getMaterial(99)).toThrow(
+        "Invalid 'move' parameter while getting material"
+      );
+    });
+
+    it("should export a material series for the main line and variations", () => {
+      const manager = new PGNManager(pgn);
+      const series = manager.getMaterialSeries();
+      expect(series.moves).toEqual(["e4", "d5", "exd5", "Qxd5", "Nc3", "Qa5"]);
+      expect(series.difference).toEqual([0, 0, 1, 0, 0, 0]);
+      expect(series.white[5]).toBe(38);
+      expect(series.phase.every((phase) => phase === "opening")).toBe(true);
+
+      const variation = manager.getMaterialSeries(6);
+      expect(variation.moves).toEqual(["e4", "d5", "exd5", "Qxd5", "c4", "Qe4+"]);
+      expect(manager.getMaterial(7).captured.w).toEqual(["p"]);
+    });
+  });
+
+  describe("Merge", () => {
+    const ours = "1. e4 {Main} e5 2. Nf3 Nc6 3. Bb5 *";
+    const theirs = `1. e4 {Good} e5 2. Nf3 $1 Nc6 (2... d6 {Philidor})
+      3. Bc4 {Italian} *`;
+
+    it("should reuse existing moves and graft new ones as variations", () => {
+      const manager = new PGNManager(ours);
+      const added = manager.merge(new PGNManager(theirs));
+      expect(added.map((move) => move.move)).toEqual(["d6", "Bc4"]);
+      expect(manager.toSAN()).toEqual(["e4", "e5", "Nf3", "Nc6", "Bb5"]);
+      expect(manager.toSAN(added[1])).toEqual([
+        "e4",
+        "e5",
+        "Nf3",
+        "Nc6",
+        "Bc4",
+      ]);
+      expect(manager.getComments(added[0])).toEqual(["Philidor"]);
+      expect(manager.getComments(added[1])).toEqual(["Italian"]);
+    });
+
+    it("should number the moves after a grafted variation", () => {
+      const manager = new PGNManager("1. e4 e5 2. Nf3 Nc6 *");
+      manager.merge(new PGNManager("1. e4 e5 2. Bc4 {Italian-ish} Nf6 *"));
+      expect(manager.pgn).toContain(
+        "1. e4 e5 2. Nf3 (2. Bc4 {Italian-ish} Nf6) 2... Nc6\n*"
+      );
+    });
+
+    it("should union comments and NAGs by default", () => {
+      const manager = new PGNManager(ours);
+      manager.merge(new PGNManager(theirs));
+      expect(manager.getComments(1)).toEqual(["Main", "Good"]);
+      expect(manager.getNags(3)).toEqual(["$1"]);
+    });
+
+    it("should resolve conflicts with the configured policy", () => {
+      const manager = new PGNManager("1. e4 $1 {Ours} *");
+      const other = new PGNManager("1. e4 $2 {Theirs} *");
+      manager.merge(other, { comments: "ours", nags: "theirs" });
+      expect(manager.getComments(1)).toEqual(["Ours"]);
+      expect(manager.getNags(1)).toEqual(["$2"]);
+
+      manager.merge(other, { comments: "theirs" });
+      expect(manager.getComments(1)).toEqual(["Theirs"]);
+      expect(manager.getNags(1)).toEqual(["$2"]);
+    });
+
+    it("should merge command annotations by name", () => {
+      const manager = new PGNManager("1. e4 {[%clk 0:05:00]} *");
+      const other = new PGNManager("1. e4 {[%clk 0:04:59]} {[%eval 0.30]} *");
+      manager.merge(other);
+      expect(manager.getClock(1)).toBe(300);
+      expect(manager.getEval(1)).toEqual({ type: "pawns", value: 0.3 });
+
+      manager.merge(other, { comments: "theirs" });
+      expect(manager.getClock(1)).toBe(299);
+    });
+
+    it("should be a single undoable edit", () => {
+      const manager = new PGNManager(ours);
+      const before = manager.pgn;
+      manager.merge(new PGNManager(theirs));
+      expect(manager.pgn).not.toBe(before);
+      expect(manager.undo()).toBe(true);
+      expect(manager.pgn).toBe(before);
+    });
+
+    it("should reject games from another position", () => {
+      const manager = new PGNManager(ours);
+      const other = new PGNManager(
+        '[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/8/4K3 w - - 0 1"]\n\n1. Kd2 *'
+      );
+      expect(() => manager.merge(other)).toThrow(
+        "Cannot merge games with different starting positions"
+      );
+      expect(manager.toSAN()).toEqual(["e4", "e5", "Nf3", "Nc6", "Bb5"]);
+    });
+  });
+
   describe("Chess960", () => {
     const chess960PGN = `[Event "Chess960 Game"]
 [Site "Test"]
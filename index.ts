@@ -1,8 +1,48 @@
 import { Chess, Chess960 } from "void57-chess";
-import * as pgnParser from "pgn-parser";
 import type { ParsedPGN, Move, Rav, Header, Result } from "pgn-parser";
 
-import { regeneratePGN } from "./utils";
+import { regeneratePGN, parsePGN, FormatOptions } from "./utils";
+import { normalizeSuffixAnnotation, toNag } from "./nags";
+import {
+  getCommentText,
+  findCommand,
+  setCommand,
+  MoveComment,
+} from "./comments";
+import {
+  Arrow,
+  Evaluation,
+  Highlight,
+  parseClock,
+  formatClock,
+  parseEvaluation,
+  formatEvaluation,
+  parseArrows,
+  formatArrows,
+  parseHighlights,
+  formatHighlights,
+} from "./annotations";
+import { PlayedMove, formatUCI, formatLAN, parseUCI } from "./notation";
+import { findHeader } from "./headers";
+import {
+  OpeningInfo,
+  OpeningOptions,
+  getEcoIndex,
+  splitOpeningName,
+} from "./eco";
+import {
+  MaterialBalance,
+  MaterialSeries,
+  PieceType,
+  getMaterialBalance,
+} from "./material";
+
+declare module "pgn-parser" {
+  interface Move {
+    /** Stable id of the move, kept across edits of the game */
+    id?: string;
+  }
+}
 
 export const FEN_START_POSITION =
   "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
@@ -15,23 +55,271 @@ export type ShortMove = {
   promotion?: string;
 };
 
+/** How the constructor treats illegal moves in the movetext */
+export type ParseMode = "strict" | "lenient";
+
+/** Options for creating a PGNManager */
+export type PGNManagerOptions = {
+  /**
+   * "strict" throws on the first illegal move, "lenient" (the default)
+   * records it in `errors` and keeps loading the rest of the game
+   */
+  mode?: ParseMode;
+  /** Number of edits that can be undone (default 100, 0 disables the history) */
+  historyDepth?: number;
+};
+
+/** Why a move could not be played */
+export type PGNDiagnosticReason = "illegal-move" | "unreachable-move";
+
+/** A move that could not be played while loading the game */
+export type PGNDiagnostic = {
+  reason: PGNDiagnosticReason;
+  /** Human readable description of the problem */
+  message: string;
+  /** The offending move object */
+  move: Move;
+  /** The offending SAN, as written in the PGN */
+  san: string;
+  /** Full move number of the offending move */
+  moveNumber: number;
+  /** Color of the player who made the move */
+  color: "w" | "b";
+  /**
+   * Pairs of (index of the move in its line, index of the variation in its
+   * ravs) leading from the main line to the line holding the move;
+   * empty for main line moves
+   */
+  variationPath: Array<number>;
+  /** FEN of the last legal position before the move */
+  fen: string;
+};
+
+/** Ways a game can end by the rules, without a player's decision */
+export type TerminationReason =
+  | "checkmate"
+  | "stalemate"
+  | "insufficient-material"
+  | "threefold-repetition"
+  | "fifty-move-rule";
+
+/** How the main line of a game ends */
+export type Termination = {
+  reason: TerminationReason;
+  result: Result;
+};
+
+/**
+ * A move given as move object, move number (its 1-based index in traversal
+ * order, which shifts when moves are added or deleted) or stable move id
+ */
+export type MoveRef = Move | number | string;
+
+/**
+ * Address of a move: pairs of (move index in its line, variation index in
+ * its ravs) leading from the main line, then the index of the move in its line
+ */
+export type MovePath = Array<number>;
+
+/** A move of the JSON export */
+export type MoveJSON = {
+  id: string;
+  san: string;
+  /** Null for a move that could not be played */
+  uci: string | null;
+  /** Long algebraic notation, null for a move that could not be played */
+  lan: string | null;
+  /** FEN after the move, or the last legal position for an illegal move */
+  fen: string;
+  color: "w" | "b";
+  /** Full move number */
+  moveNumber: number;
+  comments: Array<string>;
+  nags: Array<string>;
+  /** Clock time from a [%clk] annotation, such as "0:03:12" */
+  clock: string | null;
+  /** The variations that are alternatives to this move */
+  variations: Array<VariationJSON>;
+};
+
+/** A variation of the JSON export */
+export type VariationJSON = {
+  /** Comments written before the first move of the variation */
+  comments: Array<string>;
+  moves: Array<MoveJSON>;
+};
+
+/** The JSON export of a game */
+export type GameJSON = {
+  headers: Array<Header>;
+  result: Result;
+  /** Comments written before the first move of the game */
+  comments: Array<string>;
+  moves: Array<MoveJSON>;
+};
+
+/** A move affected by a change, with its path after the change */
+export type MoveEvent = {
+  move: Move;
+  path: MovePath;
+};
+
+/** Events emitted by PGNManager, by name, with the type of their payload */
+export type PGNManagerEvents = {
+  /** A move was added to the game */
+  moveAdded: MoveEvent;
+  /**
+   * Moves were deleted; `move` is the first of them, `path` its path
+   * before the deletion and `moves` all of them, nested variations included
+   */
+  moveDeleted: MoveEvent & { moves: Array<Move> };
+  /** The variation holding `move` was promoted */
+  variationPromoted: MoveEvent;
+  /** A header was set, changed or removed (`value` is undefined) */
+  headerChanged: { name: string; value: string | undefined };
+  /**
+   * The comments of a move changed; for comments before the first move of
+   * a variation `move` is that first move, for comments of the game it is null
+   */
+  commentChanged: { move: Move | null; path: MovePath | null };
+  /** The result of the game changed */
+  resultChanged: { result: Result };
+  /**
+   * The whole game was restored from the undo history; move objects were
+   * recreated and every view of the game is stale
+   */
+  gameRestored: { action: "undo" | "redo" };
+};
+
+/** Name of an event emitted by PGNManager */
+export type PGNManagerEventName = keyof PGNManagerEvents;
+
+/** Function called with the payload of an event */
+export type PGNManagerListener<K extends PGNManagerEventName> = (
+  event: PGNManagerEvents[K]
+) => void;
+
+/** A move, move number, move id or variation whose comments are read or edited */
+export type CommentTarget = MoveRef | Rav;
+
+/** Which comments of a target are read or edited */
+export type CommentOptions = {
+  /**
+   * Targets the comments written before a move instead of after it: the game
+   * comments for the first move of the game, the variation comments for the
+   * first move of a variation, and the previous move's comments otherwise
+   */
+  before?: boolean;
+  /** With the game itself (`parsedPGN`) as target, targets the comments above the headers */
+  aboveHeader?: boolean;
+};
+
+/**
+ * How merge resolves a move annotated in both games: "union" keeps the
+ * annotations of both, "ours" keeps this game's, "theirs" takes the other
+ * game's; an annotation only one game has is always kept
+ */
+export type MergePolicy = "union" | "ours" | "theirs";
+
+/** How merge combines the annotations of two games */
+export type MergeOptions = {
+  /** Policy for the comments, command annotations included (default "union") */
+  comments?: MergePolicy;
+  /** Policy for the NAGs (default "union") */
+  nags?: MergePolicy;
+};
+
+/** Read and write access to one list of comments */
+type CommentSlot = {
+  read: () => Array<string>;
+  write: (comments: Array<string>) => void;
+};
+
+/** State of the game saved in the undo and redo history */
+type EditSnapshot = {
+  /** The parsed game, serialized */
+  game: string;
+  pgn: string;
+};
+
+/** Side to move and move number of a line past an illegal move */
+type BrokenLine = {
+  color: "w" | "b";
+  moveNumber: number;
+};
+
 /** Shared instance type for both Chess and Chess960 */
 type ChessInstance = Chess | Chess960;
 
 /** Known variant header values that indicate Chess960 */
 const CHESS960_VARIANTS = ["chess960", "fischerandom", "fischerrandom"];
 
+/** Values allowed for a game result */
+const RESULTS: Array<Result> = ["1-0", "0-1", "1/2-1/2", "*"];
+
+/** Terminations that end the game without a claim */
+const AUTOMATIC_TERMINATIONS: Array<TerminationReason> = [
+  "checkmate",
+  "stalemate",
+  "insufficient-material",
+];
+
+/** Headers that decide the starting position or the rules of the game */
+const POSITION_HEADERS = ["fen", "setup", "variant"];
+
 /**
  * Determines whether the game is a Chess960 game based on PGN headers
  */
 function isChess960Game(headers?: Header[]): boolean {
-  if (!headers) return false;
-  const variant = headers.find(
-    (h) => h.name.toLowerCase() === "variant"
-  )?.value;
+  const variant = findHeader(headers, "Variant")?.value;
   return variant ? CHESS960_VARIANTS.includes(variant.toLowerCase()) : false;
 }
 
+/**
+ * Determines whether the current position of a game ends it by the rules
+ */
+function getPositionTermination(chess: ChessInstance): Termination | null {
+  if (chess.isCheckmate()) {
+    return {
+      reason: "checkmate",
+      result: chess.turn() === "w" ? "0-1" : "1-0",
+    };
+  }
+
+  let reason: TerminationReason | null = null;
+  if (chess.isStalemate()) {
+    reason = "stalemate";
+  } else if (chess.isInsufficientMaterial()) {
+    reason = "insufficient-material";
+  } else if (chess.isThreefoldRepetition()) {
+    reason = "threefold-repetition";
+  } else if (parseInt(chess.fen().split(" ")[4], 10) >= 100) {
+    reason = "fifty-move-rule";
+  }
+  return reason ? { reason, result: "1/2-1/2" } : null;
+}
+
+/**
+ * Reduces a FEN to the fields that identify a position: piece placement,
+ * side to move, castling rights and en passant square. Positions reached
+ * after a different number of moves compare equal.
+ * @param fen - A FEN string
+ * @returns The normalized position key
+ */
+export function normalizeFen(fen: string): string {
+  return fen.trim().split(/\s+/).slice(0, 4).join(" ");
+}
+
+/**
+ * Gets the starting position of the game based on PGN headers
+ */
+function getStartFen(headers?: Header[]): string {
+  if (findHeader(headers, "SetUp")?.value === "0") {
+    return FEN_START_POSITION;
+  }
+  return findHeader(headers, "FEN")?.value || FEN_START_POSITION;
+}
+
 /**
  * Creates the appropriate Chess or Chess960 instance based on game headers
  */
@@ -42,6 +330,23 @@ function createChessInstance(fen: string, headers?: Header[]): ChessInstance {
   return new Chess(fen);
 }
 
+/**
+ * Combines two lists of annotations following a merge policy
+ * @param ours - The annotations of this game
+ * @param theirs - The annotations of the other game
+ * @param policy - How to resolve annotations both games have
+ * @returns The combined annotations
+ */
+function mergeAnnotations<T>(
+  ours: Array<T>,
+  theirs: Array<T>,
+  policy: MergePolicy = "union"
+): Array<T> {
+  if (policy === "ours") return ours.length ? ours : theirs;
+  if (policy === "theirs") return theirs.length ? theirs : ours;
+  return [...ours, ...theirs.filter((value) => !ours.includes(value))];
+}
+
 class PGNManager {
   /** The raw PGN string input */
   private rawPGN: string;
@@ -55,8 +360,8 @@ class PGNManager {
   /** Map of moves to their FEN position strings */
   private moveFen: Map<Move, string>;
 
-  /** Map of FEN position string to their move object */
-  private fenMove: Map<string, Move> = new Map();
+  /** Map of normalized positions to the moves reaching them, in traversal order */
+  private positionMoves: Map<string, Array<Move>> = new Map();
 
   /** Map of moves to their parent variations (or null for mainline) */
   private moveParent: Map<Move, Rav | null>;
@@ -67,26 +372,72 @@ class PGNManager {
   /** Map of moves to the color of the player who made the move */
   private moveColor: Map<Move, "w" | "b">;
 
+  /** Map of legal moves to their squares and pieces */
+  private movePlayed: Map<Move, PlayedMove> = new Map();
+
   /** Whether this game is a Chess960 game */
   private _isChess960: boolean;
 
+  /** Whether illegal moves throw or are recorded */
+  private mode: ParseMode;
+
+  /** Moves that could not be played during the last traversal */
+  private diagnostics: Array<PGNDiagnostic> = [];
+
+  /** Lines that hit an illegal move during the traversal */
+  private brokenLines: Map<ChessInstance, BrokenLine> = new Map();
+
+  /** Map of stable move ids to their move objects */
+  private idMove: Map<string, Move> = new Map();
+
+  /** Counter of the move ids given out by this manager */
+  private lastMoveId = 0;
+
+  /** Maximum number of snapshots kept in the undo history */
+  private historyDepth: number;
+
+  /** States before the edits that can be undone, oldest first */
+  private undoStack: Array<EditSnapshot> = [];
+
+  /** States before the edits that were undone, most recently undone last */
+  private redoStack: Array<EditSnapshot> = [];
+
+  /** Number of edits in progress, so nested edits record one history entry */
+  private editDepth = 0;
+
+  /** Listeners subscribed to each event */
+  private listeners: Map<
+    PGNManagerEventName,
+    Set<PGNManagerListener<PGNManagerEventName>>
+  > = new Map();
+
+  /** Events of the edit in progress, emitted once it succeeds */
+  private pendingEvents: Array<() => void> = [];
+
   /**
    * Creates a new PGNManager instance
-   * @param pgn - The PGN string to parse and manage
+   * @param pgn - The PGN string to parse and manage, or an already parsed game
+   * @param options - How the game is loaded
+   * @throws Error in strict mode if the game contains an illegal move
    */
-  constructor(pgn: string) {
-    this.rawPGN = pgn;
-    this.game = pgnParser.parse(pgn + " *")[0];
+  constructor(pgn: string | ParsedPGN, options: PGNManagerOptions = {}) {
+    this.mode = options.mode || "lenient";
+    this.historyDepth = options.historyDepth ?? 100;
+
+    if (typeof pgn === "string") {
+      this.rawPGN = pgn;
+      this.game = parsePGN(pgn + " *")[0];
+    } else {
+      this.game = pgn;
+    }
 
     this.sortedMoves = [];
-    this.moveParent = new Map();
-    this.ravParent = new Map();
-    this.moveFen = new Map();
-    this.fenMove = new Map();
-    this.moveColor = new Map();
-    this._isChess960 = isChess960Game(this.game.headers);
+    this.reinitialize();
 
-    this.dfOnGame(this.game);
+    // games handed over already parsed have no source text of their own
+    if (typeof pgn !== "string") {
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    }
   }
 
   /**
@@ -96,22 +447,71 @@ class PGNManager {
     return this._isChess960;
   }
 
+  /**
+   * Returns the FEN of the starting position, from the FEN header if the
+   * game has one
+   */
+  public get startFen(): string {
+    return getStartFen(this.game.headers);
+  }
+
+  /**
+   * Clears all move bookkeeping and traverses the game again, for changes
+   * to the starting position or the variant of the game
+   */
+  private reinitialize = () => {
+    this.moveParent = new Map();
+    this.ravParent = new Map();
+    this.moveFen = new Map();
+    this.moveColor = new Map();
+    this.movePlayed = new Map();
+    this._isChess960 = isChess960Game(this.game.headers);
+
+    this.dfOnGame(this.game);
+  };
+
   /**
    * Initializes the game traversal starting from the initial position
    * @param game - The parsed PGN game object
    */
   private dfOnGame = (game: ParsedPGN) => {
     this.sortedMoves = [];
+    this.positionMoves = new Map();
+    this.diagnostics = [];
+    this.brokenLines = new Map();
 
-    const startFen =
-      game.headers?.find((h) => h.name.toUpperCase() === "FEN")?.value ||
-      FEN_START_POSITION;
+    const startFen = getStartFen(game.headers);
 
     var chessGame = createChessInstance(startFen, game.headers);
 
     for (let move of game.moves) {
       this.dfsOnGame(move, game, chessGame);
     }
+
+    this.assignMoveIds();
+  };
+
+  /**
+   * Keeps the ids moves already have and gives the others fresh ones
+   */
+  private assignMoveIds = () => {
+    this.idMove = new Map();
+    const unassigned: Array<Move> = [];
+
+    for (const move of this.sortedMoves) {
+      if (move.id && !this.idMove.has(move.id)) {
+        this.idMove.set(move.id, move);
+      } else {
+        unassigned.push(move);
+      }
+    }
+
+    for (const move of unassigned) {
+      do {
+        move.id = `m${++this.lastMoveId}`;
+      } while (this.idMove.has(move.id));
+      this.idMove.set(move.id, move);
+    }
   };
 
   /**
@@ -127,6 +527,7 @@ class PGNManager {
   ) => {
     this.sortedMoves.push(move);
     this.moveParent.set(move, parent);
+    normalizeSuffixAnnotation(move);
 
     if (move.ravs) {
       for (let rav of move.ravs) {
@@ -135,6 +536,11 @@ class PGNManager {
           chessGame.fen(),
           this.game.headers
         );
+        if (this.brokenLines.has(chessGame)) {
+          this.brokenLines.set(newVarChessGame, {
+            ...this.brokenLines.get(chessGame),
+          });
+        }
 
         for (let ravMove of rav.moves) {
           this.dfsOnGame(ravMove, rav, newVarChessGame);
@@ -143,14 +549,139 @@ class PGNManager {
     }
 
     // move only after variations are processed
-    try {
-      chessGame.move(move.move);
-    } catch {
-      console.log("Invalid move: " + move.move);
+    const brokenLine = this.brokenLines.get(chessGame);
+    let played;
+    if (!brokenLine) {
+      try {
+        played = chessGame.move(move.move);
+      } catch {
+        played = null;
+      }
+    }
+
+    if (!played) {
+      // the position past an illegal move is unknown, keep the last legal one
+      const color = brokenLine ? brokenLine.color : chessGame.turn();
+      const moveNumber = brokenLine
+        ? brokenLine.moveNumber
+        : parseInt(chessGame.fen().split(" ")[5], 10);
+      this.addDiagnostic(
+        move,
+        brokenLine ? "unreachable-move" : "illegal-move",
+        color,
+        moveNumber,
+        chessGame.fen()
+      );
+      this.brokenLines.set(chessGame, {
+        color: color === "w" ? "b" : "w",
+        moveNumber: color === "w" ? moveNumber : moveNumber + 1,
+      });
+      this.moveFen.set(move, chessGame.fen());
+      this.moveColor.set(move, color);
+      return;
     }
+
     this.moveFen.set(move, chessGame.fen());
-    this.fenMove.set(chessGame.fen(), move);
+    this.indexPosition(move, chessGame.fen());
     this.moveColor.set(move, chessGame.turn() === "w" ? "b" : "w");
+    this.movePlayed.set(move, {
+      from: played.from,
+      to: played.to,
+      piece: played.piece,
+      captured: played.captured,
+      promotion: played.promotion,
+      san: played.san,
+    });
+  };
+
+  /**
+   * Adds a move to the index of the positions it reaches
+   * @param move - The move object
+   * @param fen - The FEN after the move
+   */
+  private indexPosition = (move: Move, fen: string) => {
+    const position = normalizeFen(fen);
+    if (!this.positionMoves.has(position)) {
+      this.positionMoves.set(position, []);
+    }
+    this.positionMoves.get(position).push(move);
+  };
+
+  /**
+   * Records a move that could not be played
+   * @param move - The offending move
+   * @param reason - Why the move could not be played
+   * @param color - The color of the player who made the move
+   * @param moveNumber - The full move number of the move
+   * @param fen - The last legal position before the move
+   * @throws Error in strict mode
+   */
+  private addDiagnostic = (
+    move: Move,
+    reason: PGNDiagnosticReason,
+    color: "w" | "b",
+    moveNumber: number,
+    fen: string
+  ) => {
+    const notation = `${moveNumber}${color === "w" ? "." : "..."} ${move.move}`;
+    const message =
+      reason === "illegal-move"
+        ? `Illegal move ${notation}`
+        : `Move ${notation} follows an illegal move`;
+
+    if (this.mode === "strict") {
+      throw Error(message);
+    }
+
+    this.diagnostics.push({
+      reason,
+      message,
+      move,
+      san: move.move,
+      moveNumber,
+      color,
+      variationPath: this.getVariationPath(move),
+      fen,
+    });
+  };
+
+  /**
+   * Gets the indexes leading from the main line to the line holding a move
+   * @param move - The move object
+   * @returns Pairs of (move index in its line, variation index in its ravs)
+   */
+  private getVariationPath = (move: Move): Array<number> => {
+    const path: Array<number> = [];
+    let rav = this.moveParent.get(move);
+    while (rav && rav !== this.game) {
+      const anchor = this.ravParent.get(rav);
+      if (!anchor) break;
+      path.unshift(
+        this.moveParent.get(anchor).moves.indexOf(anchor),
+        anchor.ravs.indexOf(rav)
+      );
+      rav = this.moveParent.get(anchor);
+    }
+    return path;
+  };
+
+  /**
+   * Gets the moves that could not be played when the game was last traversed
+   * @returns Array of diagnostics, empty if every move is legal
+   */
+  public get errors(): Array<PGNDiagnostic> {
+    return [...this.diagnostics];
+  }
+
+  /**
+   * Re-checks every move of the game, including changes made directly to
+   * the parsed PGN object
+   * @returns Array of diagnostics, empty if every move is legal
+   * @throws Error in strict mode if the game contains an illegal move
+   */
+  public validate = (): Array<PGNDiagnostic> => {
+    this.dfOnGame(this.game);
+    return this.errors;
   };
 
   /**
@@ -161,6 +692,15 @@ class PGNManager {
     return this.rawPGN;
   }
 
+  /**
+   * Formats the game as PGN, without changing `pgn`
+   * @param options - How the game is formatted, such as EXPORT_FORMAT
+   * @returns The PGN string
+   */
+  public format = (options: FormatOptions = {}): string => {
+    return regeneratePGN(this.game, this.moveColor, options);
+  };
+
   /**
    * Gets the parsed PGN object
    * @returns The parsed PGN game object
@@ -179,111 +719,393 @@ class PGNManager {
   }
 
   /**
-   * Gets a move by its number in the sequence
-   * @param moveNumber - The 1-based index of the move
-   * @returns The move object at the specified position
+   * Gets the value of a header, ignoring the case of its name
+   * @param name - The tag name, such as "White"
+   * @returns The tag value, or undefined if the game does not have the header
    */
-  public getMove = (moveNumber: number) => {
-    let move = this.sortedMoves[moveNumber - 1];
-    return move;
+  public getHeader = (name: string): string | undefined => {
+    return findHeader(this.game.headers, name)?.value;
   };
 
   /**
-   * Gets the number of a move in the sequence
-   * @param move - The move object
-   * @returns The 1-based index of the move
+   * Sets the value of a header, adding it if the game does not have it yet.
+   * Setting "FEN" also adds a "SetUp" header; changing "FEN", "SetUp" or
+   * "Variant" reloads the moves from the new starting position.
+   * @param name - The tag name, such as "White"
+   * @param value - The tag value
+   * @throws Error if the name is not a valid tag name, or in strict mode if
+   * the moves are illegal from the new starting position
    */
-  public getMoveNumber = (move: Move) => {
-    return this.sortedMoves.indexOf(move) + 1;
+  public setHeader = (name: string, value: string): void => {
+    return this.edit(() => {
+      if (!/^[A-Za-z0-9_]+$/.test(name)) {
+        throw Error("Invalid header name");
+      }
+      if (name.toLowerCase() === "result") {
+        this.setResult(value as Result);
+        return;
+      }
+
+      const previous = this.headers.map((header) => ({ ...header }));
+      const header = findHeader(this.game.headers, name);
+      if (header) {
+        header.value = value;
+      } else {
+        this.game.headers = [...this.headers, { name, value }];
+      }
+      if (name.toLowerCase() === "fen" && !findHeader(this.headers, "SetUp")) {
+        this.game.headers.push({ name: "SetUp", value: "1" });
+      }
+
+      this.updateHeaders(name, previous);
+    });
   };
 
   /**
-   * Gets the next move in the sequence
-   * @param moveOrId - The current move object or move number
-   * @returns The next move in the sequence
-   * @throws Error if there are no moves in the game
+   * Removes a header, ignoring the case of its name. Removing "FEN" also
+   * removes the "SetUp" header.
+   * @param name - The tag name, such as "Annotator"
+   * @returns True if the header was removed, false if the game did not have it
+   * @throws Error in strict mode if the moves are illegal from the standard
+   * starting position
    */
-  public nextMove = (moveOrId: Move | number | undefined): Move => {
-    let move: Move | undefined;
-    if (typeof moveOrId === "number") {
-      move = this.getMove(moveOrId);
-    } else {
-      move = moveOrId;
-    }
+  public removeHeader = (name: string): boolean => {
+    return this.edit(() => {
+      if (!findHeader(this.game.headers, name)) {
+        return false;
+      }
 
-    if (!move) {
-      if (this.sortedMoves.length == 0) {
-        throw Error("No moves in game");
+      const removed = [name.toLowerCase()];
+      if (removed[0] === "fen") {
+        removed.push("setup");
       }
-      return this.sortedMoves[0];
-    }
 
-    if (
-      move == this.game.moves[this.game.moves.length - 1] ||
-      move === this.sortedMoves[this.sortedMoves.length - 1]
-    ) {
-      return move;
-    }
+      const previous = this.headers.map((header) => ({ ...header }));
+      this.game.headers = this.headers.filter(
+        (h) => !removed.includes(h.name.toLowerCase())
+      );
 
-    let parentRav = this.moveParent.get(move);
-    let tempNextMove = this.getMove(this.getMoveNumber(move) + 1);
+      this.updateHeaders(name, previous);
+      return true;
+    });
+  };
 
-    if (parentRav) {
-      let indexInParent = parentRav.moves.indexOf(move);
-      if (indexInParent == parentRav.moves.length - 1) {
-        let superParent = this.ravParent.get(parentRav);
-        if (superParent) {
-          tempNextMove = this.nextMove(superParent);
-        }
-      } else {
-        tempNextMove = parentRav.moves[indexInParent + 1];
+  /**
+   * Sets the result of the game, in the movetext and the Result header
+   * @param result - The result: "1-0", "0-1", "1/2-1/2" or "*"
+   * @throws Error if the result is invalid
+   */
+  public setResult = (result: Result): void => {
+    return this.edit(() => {
+      if (!RESULTS.includes(result)) {
+        throw Error("Invalid result");
       }
+      this.applyResult(result);
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Stores the result of the game in the movetext and the Result header
+   * @param result - The result of the game
+   */
+  private applyResult = (result: Result) => {
+    const header = findHeader(this.game.headers, "Result");
+    if (this.game.result !== result) {
+      this.emit("resultChanged", { result });
+    }
+    if (header?.value !== result) {
+      this.emit("headerChanged", {
+        name: header?.name || "Result",
+        value: result,
+      });
     }
 
-    return tempNextMove;
+    this.game.result = result;
+    if (header) {
+      header.value = result;
+    } else {
+      this.game.headers = [...this.headers, { name: "Result", value: result }];
+    }
   };
 
   /**
-   * Checks if there is a next move available
-   * @param moveOrId - The current move object or move number
-   * @returns True if there is a next move, false otherwise
+   * Determines whether the main line ends the game by the rules of chess.
+   * Threefold repetition and the fifty-move rule are reported as well,
+   * although a player has to claim them.
+   * @returns The reason and the result, or null if the game goes on or
+   * the main line contains an illegal move
    */
-  public hasNextMove = (moveOrId: Move | number): boolean => {
-    const move =
-      typeof moveOrId === "number" ? this.getMove(moveOrId) : moveOrId;
-    return !move || this.nextMove(move) !== move;
+  public getTermination = (): Termination | null => {
+    const chess = createChessInstance(
+      getStartFen(this.game.headers),
+      this.game.headers
+    );
+    for (const move of this.game.moves) {
+      try {
+        if (!chess.move(move.move)) return null;
+      } catch {
+        return null;
+      }
+    }
+    return getPositionTermination(chess);
   };
 
   /**
-   * Gets the previous move in the sequence
-   * @param moveOrId - The current move object or move number
-   * @returns The previous move or undefined if at the start
-   * @throws Error if there are no moves or if the move parameter is invalid
+   * Reloads the moves if a changed header affects them and re-syncs the PGN
+   * @param name - The name of the changed header
+   * @param previous - The headers before the change, restored on failure
    */
-  public previousMove = (moveOrId: Move | number): Move | undefined => {
-    const move =
-      typeof moveOrId === "number" ? this.getMove(moveOrId) : moveOrId;
-
-    if (!move) {
-      if (this.sortedMoves.length == 0) {
-        throw Error("No moves in game");
+  private updateHeaders = (name: string, previous: Array<Header>) => {
+    if (POSITION_HEADERS.includes(name.toLowerCase())) {
+      try {
+        this.reinitialize();
+      } catch (error) {
+        this.game.headers = previous;
+        this.reinitialize();
+        throw error;
       }
-      throw Error("Invalid 'move' parameter while getting previous move");
     }
+    this.rawPGN = regeneratePGN(this.game, this.moveColor);
 
-    let currentMoveNumber = this.getMoveNumber(move);
-    if (currentMoveNumber == 0) {
-      return undefined;
-    }
+    const names = [...previous, ...this.headers].map((h) => h.name);
+    const changed = names.filter(
+      (n, i) =>
+        names.findIndex((m) => m.toLowerCase() === n.toLowerCase()) === i &&
+        findHeader(previous, n)?.value !== findHeader(this.headers, n)?.value
+    );
+    changed.forEach((n) =>
+      this.emit("headerChanged", {
+        name: n,
+        value: findHeader(this.headers, n)?.value,
+      })
+    );
+  };
 
-    let parentRav = this.moveParent.get(move);
-    let tempPrevMove = this.getMove(currentMoveNumber - 1);
-    if (parentRav) {
-      let indexInParent = parentRav.moves.indexOf(move);
-      if (indexInParent == 0) {
-        let superParent = this.ravParent.get(parentRav);
-        if (superParent) {
-          tempPrevMove = superParent;
+  /**
+   * Gets a move by its number in the sequence
+   * @param moveNumber - The 1-based index of the move
+   * @returns The move object at the specified position
+   */
+  public getMove = (moveNumber: number) => {
+    let move = this.sortedMoves[moveNumber - 1];
+    return move;
+  };
+
+  /**
+   * Gets the number of a move in the sequence
+   * @param move - The move object
+   * @returns The 1-based index of the move
+   */
+  public getMoveNumber = (move: Move) => {
+    return this.sortedMoves.indexOf(move) + 1;
+  };
+
+  /**
+   * Gets every move reaching a position, in any line of the game
+   * @param fen - The FEN of the position; the move counters are ignored
+   * @returns The moves, in traversal order
+   */
+  public getPositionMoves = (fen: string): Array<Move> => {
+    return [...(this.positionMoves.get(normalizeFen(fen)) || [])];
+  };
+
+  /**
+   * Finds the other moves of the game reaching the same position as a move,
+   * through a different move order or a repetition
+   * @param moveOrId - The move object, move number or move id
+   * @returns The other moves, in traversal order; empty for an illegal move
+   * @throws Error if the move parameter is invalid
+   */
+  public findTranspositions = (moveOrId: MoveRef): Array<Move> => {
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveFen.has(move)) {
+      throw Error("Invalid 'move' parameter while finding transpositions");
+    }
+    const moves = this.positionMoves.get(normalizeFen(this.moveFen.get(move)));
+    if (!moves?.includes(move)) {
+      return [];
+    }
+    return moves.filter((m) => m !== move);
+  };
+
+  /**
+   * Gets every move that can follow a move: the continuation of its line and
+   * the first move of every variation that is an alternative to it
+   * @param moveOrId - The move object, move number or move id; null or 0 for
+   * the starting position
+   * @returns The continuations, main continuation first; empty at the end
+   * of a line
+   * @throws Error if the move parameter is invalid
+   */
+  public getContinuations = (moveOrId: MoveRef | null = null): Array<Move> => {
+    if (moveOrId === null || moveOrId === 0) {
+      return this.getChildMoves(null, this.game);
+    }
+
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveParent.has(move)) {
+      throw Error("Invalid 'move' parameter while getting continuations");
+    }
+    return this.getChildMoves(move, this.moveParent.get(move));
+  };
+
+  /**
+   * Gets the moves that can follow a move: the next move of its line and the
+   * first moves of the variations branching off that next move
+   * @param move - The move, or null for the starting position
+   * @param line - The line holding the move, the game for the starting position
+   * @returns The following moves, main continuation first
+   */
+  private getChildMoves = (move: Move | null, line: Rav): Array<Move> => {
+    const next = line.moves[move ? line.moves.indexOf(move) + 1 : 0];
+    if (!next) {
+      return [];
+    }
+    return [next, ...(next.ravs || []).map((rav) => rav.moves[0])];
+  };
+
+  /**
+   * Gets a move by its stable id
+   * @param id - The id of the move, as found in its `id` property
+   * @returns The move object, or undefined if no move has this id
+   */
+  public getMoveById = (id: string): Move | undefined => {
+    return this.idMove.get(id);
+  };
+
+  /**
+   * Gets the address of a move in the tree of variations
+   * @param moveOrId - The move object, move number or move id
+   * @returns The path of the move
+   * @throws Error if the move parameter is invalid
+   */
+  public getMovePath = (moveOrId: MoveRef): MovePath => {
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveParent.has(move)) {
+      throw Error("Invalid 'move' parameter while getting move path");
+    }
+    const line = this.moveParent.get(move);
+    return [...this.getVariationPath(move), line.moves.indexOf(move)];
+  };
+
+  /**
+   * Gets a move by its address in the tree of variations
+   * @param path - The path of the move, as returned by getMovePath
+   * @returns The move object, or undefined if the path leads nowhere
+   */
+  public getMoveByPath = (path: MovePath): Move | undefined => {
+    if (!path.length || path.length % 2 === 0) {
+      return undefined;
+    }
+
+    let line: Rav = this.game;
+    for (let i = 0; i < path.length - 1; i += 2) {
+      const rav = line.moves[path[i]]?.ravs?.[path[i + 1]];
+      if (!rav) {
+        return undefined;
+      }
+      line = rav;
+    }
+    return line.moves[path[path.length - 1]];
+  };
+
+  /**
+   * Gets the move object a move reference points to
+   * @param moveOrId - The move object, move number or move id
+   * @returns The move object, or undefined if there is no such move; a move
+   * object is returned as it is
+   */
+  public resolveMove = (moveOrId: MoveRef | undefined): Move | undefined => {
+    if (typeof moveOrId === "number") {
+      return this.getMove(moveOrId);
+    }
+    if (typeof moveOrId === "string") {
+      return this.idMove.get(moveOrId);
+    }
+    return moveOrId;
+  };
+
+  /**
+   * Gets the next move in the sequence
+   * @param moveOrId - The current move object, move number or move id
+   * @returns The next move in the sequence
+   * @throws Error if there are no moves in the game
+   */
+  public nextMove = (moveOrId: MoveRef | undefined): Move => {
+    const move = this.resolveMove(moveOrId);
+
+    if (!move) {
+      if (this.sortedMoves.length == 0) {
+        throw Error("No moves in game");
+      }
+      return this.sortedMoves[0];
+    }
+
+    if (
+      move == this.game.moves[this.game.moves.length - 1] ||
+      move === this.sortedMoves[this.sortedMoves.length - 1]
+    ) {
+      return move;
+    }
+
+    let parentRav = this.moveParent.get(move);
+    let tempNextMove = this.getMove(this.getMoveNumber(move) + 1);
+
+    if (parentRav) {
+      let indexInParent = parentRav.moves.indexOf(move);
+      if (indexInParent == parentRav.moves.length - 1) {
+        let superParent = this.ravParent.get(parentRav);
+        if (superParent) {
+          tempNextMove = this.nextMove(superParent);
+        }
+      } else {
+        tempNextMove = parentRav.moves[indexInParent + 1];
+      }
+    }
+
+    return tempNextMove;
+  };
+
+  /**
+   * Checks if there is a next move available
+   * @param moveOrId - The current move object, move number or move id
+   * @returns True if there is a next move, false otherwise
+   */
+  public hasNextMove = (moveOrId: MoveRef): boolean => {
+    const move = this.resolveMove(moveOrId);
+    return !move || this.nextMove(move) !== move;
+  };
+
+  /**
+   * Gets the previous move in the sequence
+   * @param moveOrId - The current move object, move number or move id
+   * @returns The previous move or undefined if at the start
+   * @throws Error if there are no moves or if the move parameter is invalid
+   */
+  public previousMove = (moveOrId: MoveRef): Move | undefined => {
+    const move = this.resolveMove(moveOrId);
+
+    if (!move) {
+      if (this.sortedMoves.length == 0) {
+        throw Error("No moves in game");
+      }
+      throw Error("Invalid 'move' parameter while getting previous move");
+    }
+
+    let currentMoveNumber = this.getMoveNumber(move);
+    if (currentMoveNumber == 0) {
+      return undefined;
+    }
+
+    let parentRav = this.moveParent.get(move);
+    let tempPrevMove = this.getMove(currentMoveNumber - 1);
+    if (parentRav) {
+      let indexInParent = parentRav.moves.indexOf(move);
+      if (indexInParent == 0) {
+        let superParent = this.ravParent.get(parentRav);
+        if (superParent) {
+          tempPrevMove = superParent;
         }
       } else {
         tempPrevMove = parentRav.moves[indexInParent - 1];
@@ -319,13 +1141,12 @@ class PGNManager {
 
   /**
    * Gets the FEN string for a specific move
-   * @param moveOrId - The move object or move number
+   * @param moveOrId - The move object, move number or move id
    * @returns The FEN string representing the position after the move
    * @throws Error if the move parameter is invalid
    */
-  public getMoveFen = (moveOrId: Move | number): string => {
-    const move =
-      typeof moveOrId === "number" ? this.getMove(moveOrId) : moveOrId;
+  public getMoveFen = (moveOrId: MoveRef): string => {
+    const move = this.resolveMove(moveOrId);
     if (!move || !this.moveFen.has(move)) {
       throw Error("Invalid 'move' parameter while getting fen");
     }
@@ -335,13 +1156,12 @@ class PGNManager {
 
   /**
    * Gets the parent RAV (variation) for a move
-   * @param moveOrId - The move object or move number
+   * @param moveOrId - The move object, move number or move id
    * @returns The parent RAV or null if the move is in the main line
    * @throws Error if the move parameter is invalid
    */
-  public getParentRav = (moveOrId: Move | number): Rav | null => {
-    const move =
-      typeof moveOrId === "number" ? this.getMove(moveOrId) : moveOrId;
+  public getParentRav = (moveOrId: MoveRef): Rav | null => {
+    const move = this.resolveMove(moveOrId);
     if (!move || !this.moveParent.has(move)) {
       throw Error("Invalid 'move' parameter while getting parent rav");
     }
@@ -351,189 +1171,1581 @@ class PGNManager {
 
   /**
    * Gets the color of the player who made the move
-   * @param moveOrId - The move object or move ID number
+   * @param moveOrId - The move object, move number or move id
    * @returns "w" for white or "b" for black
    * @throws Error if the move parameter is invalid
    */
-  public getMoveColor = (moveOrId: Move | number): "w" | "b" => {
-    const move =
-      typeof moveOrId === "number" ? this.getMove(moveOrId) : moveOrId;
+  public getMoveColor = (moveOrId: MoveRef): "w" | "b" => {
+    const move = this.resolveMove(moveOrId);
     if (!move || !this.moveColor.has(move)) {
       throw Error("Invalid 'move' parameter while getting move color");
     }
     return this.moveColor.get(move);
   };
 
-  /***
-   * Pushes a new move into the game
-   * @param moveId - The ID of the move to push
-   * @param newMove - The move object to add
-   * @param result - The result of the game after this move (default is "*")
-   * @returns The newly created move object
+  /**
+   * Gets the numeric annotation glyphs of a move
+   * @param moveOrId - The move object, move number or move id
+   * @returns Array of NAGs in "$n" form, including suffix annotations such as "!"
    * @throws Error if the move parameter is invalid
    */
-  public pushMove = (
-    moveId: number,
-    newMove: ShortMove,
-    result: Result = "*"
-  ): Move => {
-    let chess: ChessInstance;
-    let parentRav: Rav;
-    let current: Move | null = null;
-
-    // 1) Initialize Chess and parent variation
-    if (moveId === 0) {
-      parentRav = this.parsedPGN;
-      const fenHdr = this.headers.find((h) => h.name.toLowerCase() === "fen");
-      const startFen = fenHdr ? fenHdr.value : FEN_START_POSITION;
-      chess = createChessInstance(startFen, this.game.headers);
-    } else {
-      current = this.getMove(moveId);
-      if (!current) throw new Error("Invalid moveId while pushing a new move!");
-      parentRav = this.moveParent.get(current) || this.parsedPGN;
-      chess = createChessInstance(
-        this.getMoveFen(current),
-        this.game.headers
-      );
+  public getNags = (moveOrId: MoveRef): Array<string> => {
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveFen.has(move)) {
+      throw Error("Invalid 'move' parameter while getting nags");
     }
+    return [...(move.nags || [])];
+  };
 
-    // 2) Play the move
-    let played;
-    try {
-      played = chess.move(newMove);
-    } catch {
-      played = null;
+  /**
+   * Adds a numeric annotation glyph to a move
+   * @param moveOrId - The move object, move number or move id
+   * @param nag - A "$n" code, its number, or a glyph such as "!?" or "±"
+   * @throws Error if the move parameter or the NAG is invalid
+   */
+  public addNag = (moveOrId: MoveRef, nag: string | number): void => {
+    return this.edit(() => {
+      const move = this.resolveMove(moveOrId);
+      if (!move || !this.moveFen.has(move)) {
+        throw Error("Invalid 'move' parameter while adding nag");
+      }
+
+      const code = toNag(nag);
+      move.nags = move.nags || [];
+      if (!move.nags.includes(code)) {
+        move.nags.push(code);
+      }
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Removes a numeric annotation glyph from a move
+   * @param moveOrId - The move object, move number or move id
+   * @param nag - A "$n" code, its number, or a glyph such as "!?" or "±"
+   * @throws Error if the move parameter or the NAG is invalid
+   */
+  public removeNag = (moveOrId: MoveRef, nag: string | number): void => {
+    return this.edit(() => {
+      const move = this.resolveMove(moveOrId);
+      if (!move || !this.moveFen.has(move)) {
+        throw Error("Invalid 'move' parameter while removing nag");
+      }
+
+      const code = toNag(nag);
+      move.nags = (move.nags || []).filter((n) => n !== code);
+      if (move.nags.length === 0) {
+        delete move.nags;
+      }
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Resolves the list of comments a comment operation works on
+   * @param target - The move, move number, move id or variation
+   * @param options - Which comments of the target
+   * @param action - Description of the operation, for error messages
+   * @throws Error if the target is invalid
+   */
+  private getCommentSlot = (
+    target: CommentTarget,
+    options: CommentOptions,
+    action: string
+  ): CommentSlot => {
+    // the game itself: comments above the headers or before the moves
+    if (target === this.game) {
+      const key = options.aboveHeader ? "comments_above_header" : "comments";
+      return {
+        read: () => (this.game[key] || []).map((comment) => comment.text),
+        write: (comments) => {
+          this.game[key] = comments.length
+            ? comments.map((text) => ({ text }))
+            : null;
+          this.emit("commentChanged", { move: null, path: null });
+        },
+      };
     }
-    if (!played) throw new Error("Invalid move");
 
-    const san = chess.history().slice(-1)[0];
-    const nextToMove = chess.turn(); // 'w' or 'b'
+    // a variation: comments before its first move
+    if (
+      target &&
+      typeof target !== "number" &&
+      typeof target !== "string" &&
+      !("move" in target)
+    ) {
+      const rav = target;
+      if (!this.ravParent.has(rav)) {
+        throw Error(`Invalid 'variation' parameter while ${action}`);
+      }
+      return {
+        read: () => [...(rav.comments_before_moves || [])],
+        write: (comments) => {
+          if (comments.length) {
+            rav.comments_before_moves = comments;
+          } else {
+            delete rav.comments_before_moves;
+          }
+          this.emitMoveEvent("commentChanged", rav.moves[0]);
+        },
+      };
+    }
 
-    // If the FEN already exists, we are trying to add a move that is already played
-    if (this.fenMove.has(chess.fen())) {
-      return this.fenMove.get(chess.fen());
+    const move = this.resolveMove(target as MoveRef);
+    if (!move || !this.moveFen.has(move)) {
+      throw Error(`Invalid 'move' parameter while ${action}`);
     }
 
-    // 3) Build move object with provisional move_number
-    const provisionalNumber = (() => {
-      if (!current) {
-        return 1; // brand‐new mainline
-      }
-      const currNum =
-        current.move_number || this.previousMove(current)?.move_number;
-      const currColor = this.getMoveColor(current);
-      return currColor === "w" ? currNum : currNum + 1;
-    })();
-
-    const moveObj: Move = {
-      move: san,
-      ravs: undefined,
-      move_number: provisionalNumber,
-      comments: [],
+    if (options.before) {
+      const parentRav = this.getParentRav(move);
+      const index = parentRav.moves.indexOf(move);
+      return this.getCommentSlot(
+        index > 0 ? parentRav.moves[index - 1] : parentRav,
+        {},
+        action
+      );
+    }
+
+    return {
+      read: () =>
+        move.comments.map(getCommentText).filter((text) => text !== null),
+      write: (comments) => {
+        // comments holding only commands, such as [%clk ...], are kept
+        const commands = move.comments.filter(
+          (comment) => getCommentText(comment) === null
+        );
+        move.comments = [...comments, ...commands];
+        this.emitMoveEvent("commentChanged", move);
+      },
     };
+  };
 
-    // 4) Insert into structure & flag first‐of‐variation
-    let isFirstOfVariation = !current;
-
-    if (!current) {
-      // brand-new mainline => variation of first move if exists
-      const first = parentRav.moves[0];
-      if (first) {
-        isFirstOfVariation = true;
-        const newRav: Rav = { moves: [moveObj], result };
-        first.ravs = first.ravs || [];
-        first.ravs.push(newRav);
-        this.moveParent.set(moveObj, newRav);
-        this.ravParent.set(newRav, first);
-      } else {
-        parentRav.moves.push(moveObj);
-        this.moveParent.set(moveObj, parentRav);
-      }
-    } else {
-      // existing‐move branch
-      const lastInRav = parentRav.moves[parentRav.moves.length - 1];
-      const isContinuation = lastInRav === current;
-
-      if (!isContinuation) {
-        // new variation off the next move
-        isFirstOfVariation = true;
-        const anchor = this.nextMove(current) || current;
-        anchor.ravs = anchor.ravs || [];
-        const newRav: Rav = { moves: [moveObj], result };
-        anchor.ravs.push(newRav);
-        this.moveParent.set(moveObj, newRav);
-        this.ravParent.set(newRav, anchor);
+  /**
+   * Gets the comments of a move, a variation or the game
+   * @param target - The move object, move number, move id, variation or `parsedPGN`
+   * @param options - Which comments of the target
+   * @returns Array of comment texts
+   * @throws Error if the target is invalid
+   */
+  public getComments = (
+    target: CommentTarget,
+    options: CommentOptions = {}
+  ): Array<string> => {
+    return this.getCommentSlot(target, options, "getting comments").read();
+  };
+
+  /**
+   * Replaces the comments of a move, a variation or the game with one comment
+   * @param target - The move object, move number, move id, variation or `parsedPGN`
+   * @param text - The comment text, an empty string removes all comments
+   * @param options - Which comments of the target
+   * @throws Error if the target is invalid
+   */
+  public setComment = (
+    target: CommentTarget,
+    text: string,
+    options: CommentOptions = {}
+  ): void => {
+    return this.edit(() => {
+      this.getCommentSlot(target, options, "setting comment").write(
+        text ? [text] : []
+      );
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Adds a comment to a move, a variation or the game
+   * @param target - The move object, move number, move id, variation or `parsedPGN`
+   * @param text - The comment text
+   * @param options - Which comments of the target
+   * @throws Error if the target is invalid
+   */
+  public addComment = (
+    target: CommentTarget,
+    text: string,
+    options: CommentOptions = {}
+  ): void => {
+    return this.edit(() => {
+      const slot = this.getCommentSlot(target, options, "adding comment");
+      slot.write([...slot.read(), text]);
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Removes comments from a move, a variation or the game
+   * @param target - The move object, move number, move id, variation or `parsedPGN`
+   * @param index - The 0-based index of the comment, all comments if omitted
+   * @param options - Which comments of the target
+   * @throws Error if the target or the index is invalid
+   */
+  public removeComment = (
+    target: CommentTarget,
+    index?: number,
+    options: CommentOptions = {}
+  ): void => {
+    return this.edit(() => {
+      const slot = this.getCommentSlot(target, options, "removing comment");
+      const comments = slot.read();
+
+      if (index === undefined) {
+        comments.splice(0);
+      } else if (
+        Number.isInteger(index) &&
+        index >= 0 &&
+        index < comments.length
+      ) {
+        comments.splice(index, 1);
       } else {
-        // continuation
-        parentRav.moves.push(moveObj);
-        this.moveParent.set(moveObj, parentRav);
+        throw Error("Invalid comment index");
       }
-    }
 
-    // 5) Conditionally remove move_number
-    // Keep it only if first‐of‐variation OR new move is White to play
-    if (!(isFirstOfVariation || nextToMove === "b")) {
-      delete moveObj.move_number;
+      slot.write(comments);
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Gets the values of a command annotation of a move
+   * @param moveOrId - The move object, move number or move id
+   * @param key - The command name, such as "clk"
+   * @param action - Description of the operation, for error messages
+   * @returns The values, or null if the move does not have the command
+   * @throws Error if the move parameter is invalid
+   */
+  private getCommandValues = (
+    moveOrId: MoveRef,
+    key: string,
+    action: string
+  ): Array<string> | null => {
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveFen.has(move)) {
+      throw Error(`Invalid 'move' parameter while ${action}`);
     }
+    const command = findCommand(move.comments, key);
+    return command ? command.values : null;
+  };
 
-    // 6) Final bookkeeping
-    this.moveFen.set(moveObj, chess.fen());
-    this.fenMove.set(chess.fen(), moveObj);
-    this.moveColor.set(moveObj, nextToMove === "w" ? "b" : "w");
-    this.rawPGN = regeneratePGN(this.game, this.moveColor);
-    this.dfOnGame(this.game);
+  /**
+   * Sets a command annotation of a move, keeping its text comments
+   * @param moveOrId - The move object, move number or move id
+   * @param key - The command name, such as "clk"
+   * @param values - Builds the values of the command, null removes it
+   * @param action - Description of the operation, for error messages
+   * @throws Error if the move parameter or the values are invalid
+   */
+  private setCommandValues = (
+    moveOrId: MoveRef,
+    key: string,
+    values: () => Array<string> | null,
+    action: string
+  ): void => {
+    return this.edit(() => {
+      const move = this.resolveMove(moveOrId);
+      if (!move || !this.moveFen.has(move)) {
+        throw Error(`Invalid 'move' parameter while ${action}`);
+      }
 
-    return moveObj;
+      const comments = setCommand(move.comments, key, values());
+      move.comments = comments as Array<string>;
+      this.emitMoveEvent("commentChanged", move);
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
   };
 
   /**
-   * Delete a move and all subsequent moves in its variation from the game
-   * @param moveId - The ID of the move to delete from
+   * Gets the clock time left after a move, from its [%clk] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @returns The time in seconds, or null if the move has no clock time
    * @throws Error if the move parameter is invalid
    */
-  public deleteMove = (moveId: number): void => {
-    const move = this.getMove(moveId);
-    if (!move) {
-      throw Error("Invalid move");
-    }
+  public getClock = (moveOrId: MoveRef): number | null => {
+    const values = this.getCommandValues(moveOrId, "clk", "getting clock");
+    return values ? parseClock(values[0] || "") : null;
+  };
 
-    // delete the move and subsequent moves from the game
-    const parentRav = this.getParentRav(move);
-    const index = parentRav.moves.indexOf(move);
-    const deletedMoves = parentRav.moves.splice(index);
+  /**
+   * Sets the clock time left after a move, as a [%clk] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @param seconds - The time in seconds, null to remove it
+   * @throws Error if the move parameter or the time is invalid
+   */
+  public setClock = (moveOrId: MoveRef, seconds: number | null): void => {
+    return this.setCommandValues(
+      moveOrId,
+      "clk",
+      () => (seconds === null ? null : [formatClock(seconds)]),
+      "setting clock"
+    );
+  };
 
-    // collect all moves and variations that need cleanup
-    const movsToClean = [];
-    const ravsToClean = [];
+  /**
+   * Gets the time spent on a move, from its [%emt] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @returns The time in seconds, or null if the move has no elapsed time
+   * @throws Error if the move parameter is invalid
+   */
+  public getElapsedTime = (moveOrId: MoveRef): number | null => {
+    const values = this.getCommandValues(
+      moveOrId,
+      "emt",
+      "getting elapsed time"
+    );
+    return values ? parseClock(values[0] || "") : null;
+  };
 
-    for (const deletedMove of deletedMoves) {
-      movsToClean.push(deletedMove);
-      if (deletedMove.ravs) {
-        for (const rav of deletedMove.ravs) {
-          ravsToClean.push(rav);
-        }
-      }
-    }
+  /**
+   * Sets the time spent on a move, as an [%emt] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @param seconds - The time in seconds, null to remove it
+   * @throws Error if the move parameter or the time is invalid
+   */
+  public setElapsedTime = (
+    moveOrId: MoveRef,
+    seconds: number | null
+  ): void => {
+    return this.setCommandValues(
+      moveOrId,
+      "emt",
+      () => (seconds === null ? null : [formatClock(seconds)]),
+      "setting elapsed time"
+    );
+  };
 
-    // Sort moves by their moveId in decreasing order
-    movsToClean.sort((a, b) => this.getMoveNumber(b) - this.getMoveNumber(a));
+  /**
+   * Gets the engine evaluation after a move, from its [%eval] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @returns The evaluation, or null if the move has none
+   * @throws Error if the move parameter is invalid
+   */
+  public getEval = (moveOrId: MoveRef): Evaluation | null => {
+    const values = this.getCommandValues(moveOrId, "eval", "getting eval");
+    return values ? parseEvaluation(values) : null;
+  };
 
-    // clean up all maps at once
-    movsToClean.forEach((move) => {
-      this.moveParent.delete(move);
-      this.fenMove.delete(this.getMoveFen(move));
-      this.moveFen.delete(move);
-      this.moveColor.delete(move);
-    });
+  /**
+   * Sets the engine evaluation after a move, as an [%eval] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @param evaluation - The evaluation, null to remove it
+   * @throws Error if the move parameter or the evaluation is invalid
+   */
+  public setEval = (
+    moveOrId: MoveRef,
+    evaluation: Evaluation | null
+  ): void => {
+    return this.setCommandValues(
+      moveOrId,
+      "eval",
+      () => (evaluation === null ? null : formatEvaluation(evaluation)),
+      "setting eval"
+    );
+  };
 
-    ravsToClean.forEach((rav) => {
-      this.ravParent.delete(rav);
-    });
+  /**
+   * Gets the arrows drawn after a move, from its [%cal] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @returns The arrows, empty if the move has none
+   * @throws Error if the move parameter is invalid
+   */
+  public getArrows = (moveOrId: MoveRef): Array<Arrow> => {
+    const values = this.getCommandValues(moveOrId, "cal", "getting arrows");
+    return values ? parseArrows(values) : [];
+  };
 
-    // update the PGN and rebuild internal state
-    this.rawPGN = regeneratePGN(this.game, this.moveColor);
-    this.dfOnGame(this.game);
+  /**
+   * Sets the arrows drawn after a move, as a [%cal] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @param arrows - The arrows, an empty array removes them
+   * @throws Error if the move parameter or an arrow is invalid
+   */
+  public setArrows = (moveOrId: MoveRef, arrows: Array<Arrow>): void => {
+    return this.setCommandValues(
+      moveOrId,
+      "cal",
+      () => (arrows.length ? formatArrows(arrows) : null),
+      "setting arrows"
+    );
+  };
+
+  /**
+   * Gets the squares highlighted after a move, from its [%csl] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @returns The highlighted squares, empty if the move has none
+   * @throws Error if the move parameter is invalid
+   */
+  public getHighlights = (moveOrId: MoveRef): Array<Highlight> => {
+    const values = this.getCommandValues(
+      moveOrId,
+      "csl",
+      "getting highlights"
+    );
+    return values ? parseHighlights(values) : [];
+  };
+
+  /**
+   * Sets the squares highlighted after a move, as a [%csl] annotation
+   * @param moveOrId - The move object, move number or move id
+   * @param highlights - The highlighted squares, an empty array removes them
+   * @throws Error if the move parameter or a highlight is invalid
+   */
+  public setHighlights = (
+    moveOrId: MoveRef,
+    highlights: Array<Highlight>
+  ): void => {
+    return this.setCommandValues(
+      moveOrId,
+      "csl",
+      () => (highlights.length ? formatHighlights(highlights) : null),
+      "setting highlights"
+    );
+  };
+
+  /***
+   * Pushes a new move into the game. A move ending the main line by
+   * checkmate, stalemate or insufficient material also sets the game result.
+   * @param moveId - The ID of the move to push
+   * @param newMove - The move object to add
+   * @param result - The result of the game or variation after this move, if
+   * known; a new variation gets no result otherwise
+   * @returns The newly created move object
+   * @throws Error if the move parameter is invalid
+   */
+  public pushMove = (
+    moveId: number,
+    newMove: ShortMove,
+    result?: Result
+  ): Move => {
+    return this.edit(() => {
+      let chess: ChessInstance;
+      let parentRav: Rav;
+      let current: Move | null = null;
+
+      // 1) Initialize Chess and parent variation
+      if (moveId === 0) {
+        parentRav = this.parsedPGN;
+        const startFen = getStartFen(this.game.headers);
+        chess = createChessInstance(startFen, this.game.headers);
+      } else {
+        current = this.getMove(moveId);
+        if (!current) throw new Error("Invalid moveId while pushing a new move!");
+        parentRav = this.moveParent.get(current) || this.parsedPGN;
+        chess = createChessInstance(
+          this.getMoveFen(current),
+          this.game.headers
+        );
+      }
+
+      // 2) Play the move
+      let played;
+      try {
+        played = chess.move(newMove);
+      } catch {
+        played = null;
+      }
+      if (!played) throw new Error("Invalid move");
+
+      const san = chess.history().slice(-1)[0];
+      const nextToMove = chess.turn(); // 'w' or 'b'
+
+      // If the current move already has this continuation, reuse it
+      const position = normalizeFen(chess.fen());
+      const existing = this.getChildMoves(current, parentRav).find((child) =>
+        this.positionMoves.get(position)?.includes(child)
+      );
+      if (existing) {
+        return existing;
+      }
+
+      // 3) Build move object with provisional move_number
+      const provisionalNumber = (() => {
+        if (!current) {
+          return 1; // brand‐new mainline
+        }
+        const currNum =
+          current.move_number || this.previousMove(current)?.move_number;
+        const currColor = this.getMoveColor(current);
+        return currColor === "w" ? currNum : currNum + 1;
+      })();
+
+      const moveObj: Move = {
+        move: san,
+        ravs: undefined,
+        move_number: provisionalNumber,
+        comments: [],
+      };
+
+      // 4) Insert into structure & flag first‐of‐variation
+      let isFirstOfVariation = !current;
+
+      if (!current) {
+        // brand-new mainline => variation of first move if exists
+        const first = parentRav.moves[0];
+        if (first) {
+          isFirstOfVariation = true;
+          const newRav: Rav = { moves: [moveObj], result: result || null };
+          first.ravs = first.ravs || [];
+          first.ravs.push(newRav);
+          this.moveParent.set(moveObj, newRav);
+          this.ravParent.set(newRav, first);
+        } else {
+          parentRav.moves.push(moveObj);
+          this.moveParent.set(moveObj, parentRav);
+        }
+      } else {
+        // existing‐move branch
+        const lastInRav = parentRav.moves[parentRav.moves.length - 1];
+        const isContinuation = lastInRav === current;
+
+        if (!isContinuation) {
+          // new variation off the next move
+          isFirstOfVariation = true;
+          const anchor = this.nextMove(current) || current;
+          anchor.ravs = anchor.ravs || [];
+          const newRav: Rav = { moves: [moveObj], result: result || null };
+          anchor.ravs.push(newRav);
+          this.moveParent.set(moveObj, newRav);
+          this.ravParent.set(newRav, anchor);
+        } else {
+          // continuation
+          parentRav.moves.push(moveObj);
+          this.moveParent.set(moveObj, parentRav);
+        }
+      }
+
+      // 5) Conditionally remove move_number
+      // Keep it only if first‐of‐variation OR new move is White to play
+      if (!(isFirstOfVariation || nextToMove === "b")) {
+        delete moveObj.move_number;
+      }
+
+      // 6) Update the game result if the move ends the main line
+      if (this.moveParent.get(moveObj) === this.game) {
+        const termination = getPositionTermination(chess);
+        if (result && result !== "*") {
+          this.applyResult(result);
+        } else if (
+          termination &&
+          AUTOMATIC_TERMINATIONS.includes(termination.reason)
+        ) {
+          this.applyResult(termination.result);
+        }
+      }
+
+      // 7) Final bookkeeping
+      this.moveFen.set(moveObj, chess.fen());
+      this.moveColor.set(moveObj, nextToMove === "w" ? "b" : "w");
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+      this.dfOnGame(this.game);
+
+      this.emitMoveEvent("moveAdded", moveObj);
+      return moveObj;
+    });
+  };
+
+  /**
+   * Merges another copy of the game, such as an annotated one, into this
+   * one. Both move trees are walked together: moves this game already has
+   * are reused, others are added as variations as by pushMove, and the
+   * comments and NAGs of both games are combined. All of it is one edit.
+   * @param other - The game to merge, from the same starting position
+   * @param options - How to combine annotations both games have
+   * @returns The moves added to this game
+   * @throws Error if the games start from different positions
+   */
+  public merge = (
+    other: PGNManager,
+    options: MergeOptions = {}
+  ): Array<Move> => {
+    return this.edit(() => {
+      if (normalizeFen(other.startFen) !== normalizeFen(this.startFen)) {
+        throw Error("Cannot merge games with different starting positions");
+      }
+
+      const existing = new Set(this.moveFen.keys());
+      const illegal = new Set(other.errors.map((error) => error.move));
+      const added: Array<Move> = [];
+
+      const mergeLine = (moves: Array<Move>, parent: Move | null) => {
+        for (const otherMove of moves) {
+          let move: Move | null = null;
+          if (!illegal.has(otherMove)) {
+            const uci = formatUCI(other.getPlayedMove(otherMove));
+            move = this.pushMove(
+              parent ? this.getMoveNumber(parent) : 0,
+              parseUCI(uci)
+            );
+            if (!existing.has(move)) added.push(move);
+            this.mergeMoveAnnotations(move, other, otherMove, options);
+          }
+
+          // the variations of a move branch from the position before it
+          (otherMove.ravs || []).forEach((rav) => mergeLine(rav.moves, parent));
+          if (!move) return;
+          parent = move;
+        }
+      };
+      mergeLine(other.parsedPGN.moves, null);
+
+      this.mergeComments(
+        this.getCommentSlot(this.game, {}, "merging games"),
+        other.getComments(other.parsedPGN),
+        options
+      );
+
+      this.updateMoveTree();
+      return added;
+    });
+  };
+
+  /**
+   * Combines comment texts of another game into a list of comments
+   * @param slot - The comments of this game
+   * @param theirs - The comment texts of the other game
+   * @param options - How to combine comments both games have
+   */
+  private mergeComments = (
+    slot: CommentSlot,
+    theirs: Array<string>,
+    options: MergeOptions
+  ) => {
+    const ours = slot.read();
+    const merged = mergeAnnotations(ours, theirs, options.comments);
+    if (
+      merged.length !== ours.length ||
+      merged.some((text, i) => text !== ours[i])
+    ) {
+      slot.write(merged);
+    }
+  };
+
+  /**
+   * Combines the comments and NAGs of a move of another game into a move
+   * @param move - The move of this game
+   * @param other - The other game
+   * @param otherMove - The same move in the other game
+   * @param options - How to combine annotations both moves have
+   */
+  private mergeMoveAnnotations = (
+    move: Move,
+    other: PGNManager,
+    otherMove: Move,
+    options: MergeOptions
+  ) => {
+    this.mergeComments(
+      this.getCommentSlot(move, {}, "merging games"),
+      other.getComments(otherMove),
+      options
+    );
+
+    // command annotations, such as [%clk], are combined by name
+    for (const comment of otherMove.comments as Array<MoveComment>) {
+      if (typeof comment === "string" || !("commands" in comment)) continue;
+      for (const { key, values } of comment.commands) {
+        const current = findCommand(move.comments, key);
+        const conflict =
+          current && current.values.join(",") !== values.join(",");
+        if (!current || (conflict && options.comments === "theirs")) {
+          const comments = setCommand(move.comments, key, values);
+          move.comments = comments as Array<string>;
+          this.emitMoveEvent("commentChanged", move);
+        }
+      }
+    }
+
+    const nags = mergeAnnotations(
+      move.nags || [],
+      otherMove.nags || [],
+      options.nags
+    );
+    if (nags.length) {
+      move.nags = [...nags];
+    }
+  };
+
+  /**
+   * Gets a move and the variation holding it, for the variation operations
+   * @param moveOrId - The move object, move number or move id
+   * @param action - Description of the operation, for error messages
+   * @throws Error if the move parameter is invalid or the move is in the main line
+   */
+  private getVariationOf = (
+    moveOrId: MoveRef,
+    action: string
+  ): { move: Move; rav: Rav } => {
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveParent.has(move)) {
+      throw Error(`Invalid 'move' parameter while ${action}`);
+    }
+    const rav = this.moveParent.get(move);
+    if (rav === this.game) {
+      throw Error("Move is not in a variation");
+    }
+    return { move, rav };
+  };
+
+  /**
+   * Swaps a variation with the continuation of the line it branches from.
+   * The old continuation takes the place of the variation among its siblings.
+   * @param rav - The variation to promote
+   */
+  private swapWithParentLine = (rav: Rav) => {
+    const anchor = this.ravParent.get(rav);
+    const line = this.moveParent.get(anchor);
+    const continuation = line.moves.splice(line.moves.indexOf(anchor));
+    const promoted = rav.moves;
+
+    // alternatives to the anchor are now alternatives to the promoted move
+    rav.moves = continuation;
+    promoted[0].ravs = [...anchor.ravs, ...(promoted[0].ravs || [])];
+    delete anchor.ravs;
+    line.moves.push(...promoted);
+
+    promoted[0].ravs.forEach((r) => this.ravParent.set(r, promoted[0]));
+    promoted.forEach((m) => this.moveParent.set(m, line));
+    continuation.forEach((m) => this.moveParent.set(m, rav));
+  };
+
+  /**
+   * Sets the move numbers the way PGN writes them: on white moves, on the
+   * first move of a line and on black moves that follow variations
+   */
+  private renumberMoves = () => {
+    const broken = new Set(this.diagnostics.map((d) => d.move));
+
+    for (const move of this.sortedMoves) {
+      if (broken.has(move)) continue;
+
+      const line = this.moveParent.get(move);
+      const index = line.moves.indexOf(move);
+      const color = this.moveColor.get(move);
+      const afterVariation = index > 0 && line.moves[index - 1].ravs?.length;
+
+      if (color === "w" || index === 0 || afterVariation) {
+        const fullMove = parseInt(this.moveFen.get(move).split(" ")[5], 10);
+        move.move_number = color === "w" ? fullMove : fullMove - 1;
+      } else {
+        delete move.move_number;
+      }
+    }
+  };
+
+  /**
+   * Rebuilds the move bookkeeping and the PGN after the move tree was
+   * restructured
+   */
+  private updateMoveTree = () => {
+    this.reinitialize();
+    this.renumberMoves();
+    this.rawPGN = regeneratePGN(this.game, this.moveColor);
+  };
+
+  /**
+   * Swaps the variation holding a move with the continuation of the line it
+   * branches from, making that continuation a variation instead
+   * @param moveOrId - Any move of the variation, as move object, move number or move id
+   * @throws Error if the move parameter is invalid or the move is in the main line
+   */
+  public promoteVariation = (moveOrId: MoveRef): void => {
+    return this.edit(() => {
+      const { move, rav } = this.getVariationOf(
+        moveOrId,
+        "promoting variation"
+      );
+      this.swapWithParentLine(rav);
+      this.updateMoveTree();
+      this.emitMoveEvent("variationPromoted", move);
+    });
+  };
+
+  /**
+   * Promotes the variation holding a move, and every variation above it,
+   * until the move is in the main line
+   * @param moveOrId - Any move of the variation, as move object, move number or move id
+   * @throws Error if the move parameter is invalid or the move is in the main line
+   */
+  public promoteToMainline = (moveOrId: MoveRef): void => {
+    return this.edit(() => {
+      const { move, rav: variation } = this.getVariationOf(
+        moveOrId,
+        "promoting to main line"
+      );
+
+      let rav = variation;
+      while (rav !== this.game) {
+        this.swapWithParentLine(rav);
+        rav = this.moveParent.get(move);
+      }
+      this.updateMoveTree();
+      this.emitMoveEvent("variationPromoted", move);
+    });
+  };
+
+  /**
+   * Moves the variation holding a move one place up among its siblings
+   * @param moveOrId - Any move of the variation, as move object, move number or move id
+   * @returns True if the variation moved, false if it was already the first
+   * @throws Error if the move parameter is invalid or the move is in the main line
+   */
+  public moveVariationUp = (moveOrId: MoveRef): boolean => {
+    return this.edit(() => {
+      const { rav } = this.getVariationOf(moveOrId, "moving variation");
+      return this.moveVariation(rav, -1);
+    });
+  };
+
+  /**
+   * Moves the variation holding a move one place down among its siblings
+   * @param moveOrId - Any move of the variation, as move object, move number or move id
+   * @returns True if the variation moved, false if it was already the last
+   * @throws Error if the move parameter is invalid or the move is in the main line
+   */
+  public moveVariationDown = (moveOrId: MoveRef): boolean => {
+    return this.edit(() => {
+      const { rav } = this.getVariationOf(moveOrId, "moving variation");
+      return this.moveVariation(rav, 1);
+    });
+  };
+
+  /**
+   * Moves a variation among its siblings
+   * @param rav - The variation to move
+   * @param offset - -1 to move it up, 1 to move it down
+   * @returns True if the variation moved
+   */
+  private moveVariation = (rav: Rav, offset: number): boolean => {
+    const siblings = this.ravParent.get(rav).ravs;
+    const index = siblings.indexOf(rav);
+    const target = index + offset;
+    if (target < 0 || target >= siblings.length) {
+      return false;
+    }
+
+    siblings.splice(index, 1);
+    siblings.splice(target, 0, rav);
+    this.updateMoveTree();
+    return true;
+  };
+
+  /**
+   * Delete a move and all subsequent moves in its variation from the game
+   * @param moveId - The ID of the move to delete from
+   * @throws Error if the move parameter is invalid
+   */
+  public deleteMove = (moveId: number): void => {
+    return this.edit(() => {
+      if (!this.getMove(moveId)) {
+        throw Error("Invalid move");
+      }
+      this.deleteFrom(moveId);
+    });
+  };
+
+  /**
+   * Deletes a move and all subsequent moves in its line, with their
+   * variations. Deleting the first move of a variation deletes the variation.
+   * @param moveOrId - The move object, move number or move id
+   * @throws Error if the move parameter is invalid
+   */
+  public deleteFrom = (moveOrId: MoveRef): void => {
+    return this.edit(() => {
+      const move = this.resolveMove(moveOrId);
+      if (!move || !this.moveParent.has(move)) {
+        throw Error("Invalid 'move' parameter while deleting moves");
+      }
+
+      const parentRav = this.getParentRav(move);
+      const index = parentRav.moves.indexOf(move);
+      this.deleteLines([parentRav.moves.slice(index)], () => {
+        if (index === 0 && parentRav !== this.game) {
+          this.removeVariation(parentRav);
+        } else {
+          parentRav.moves.splice(index);
+        }
+      });
+    });
+  };
+
+  /**
+   * Deletes all moves after a move in its line, with their variations,
+   * keeping the move itself
+   * @param moveOrId - The move object, move number or move id
+   * @throws Error if the move parameter is invalid
+   */
+  public truncateAfter = (moveOrId: MoveRef): void => {
+    return this.edit(() => {
+      const move = this.resolveMove(moveOrId);
+      if (!move || !this.moveParent.has(move)) {
+        throw Error("Invalid 'move' parameter while truncating moves");
+      }
+
+      const parentRav = this.getParentRav(move);
+      const index = parentRav.moves.indexOf(move) + 1;
+      this.deleteLines([parentRav.moves.slice(index)], () =>
+        parentRav.moves.splice(index)
+      );
+    });
+  };
+
+  /**
+   * Deletes a variation with all its moves and nested variations
+   * @param rav - The variation, as returned by getParentRav
+   * @throws Error if the variation is not part of the game
+   */
+  public deleteVariation = (rav: Rav): void => {
+    return this.edit(() => {
+      if (!this.ravParent.has(rav)) {
+        throw Error("Invalid 'variation' parameter while deleting variation");
+      }
+      this.deleteLines([rav.moves], () => this.removeVariation(rav));
+    });
+  };
+
+  /**
+   * Detaches a variation from the move it branches from
+   * @param rav - The variation to remove
+   */
+  private removeVariation = (rav: Rav) => {
+    const anchor = this.ravParent.get(rav);
+    anchor.ravs = anchor.ravs.filter((r) => r !== rav);
+    if (!anchor.ravs.length) {
+      delete anchor.ravs;
+    }
+  };
+
+  /**
+   * Deletes lines of moves from the game, emitting a moveDeleted event for
+   * each of them
+   * @param lines - The deleted lines, each a sequence of moves of one line
+   * @param deletion - Function removing the lines from the game
+   */
+  private deleteLines = (lines: Array<Array<Move>>, deletion: () => void) => {
+    const events = lines
+      .filter((line) => line.length)
+      .map((line) => ({
+        move: line[0],
+        path: this.getMovePath(line[0]),
+        moves: this.collectMoves(line),
+      }));
+
+    deletion();
+    this.updateMoveTree();
+    events.forEach((event) => this.emit("moveDeleted", event));
+  };
+
+  /**
+   * Collects moves together with the moves of their variations
+   * @param moves - A sequence of moves of one line
+   * @returns The moves in traversal order
+   */
+  private collectMoves = (moves: Array<Move>): Array<Move> => {
+    return moves.flatMap((move) => [
+      move,
+      ...(move.ravs || []).flatMap((rav) => this.collectMoves(rav.moves)),
+    ]);
+  };
+
+  /**
+   * Deletes every variation, leaving only the main line
+   */
+  public deleteAllVariations = (): void => {
+    return this.edit(() => {
+      const variations = this.game.moves.flatMap((move) => move.ravs || []);
+      this.deleteLines(
+        variations.map((rav) => rav.moves),
+        () => this.game.moves.forEach((move) => delete move.ravs)
+      );
+    });
+  };
+
+  /**
+   * Deletes the comments of every move and variation and of the game,
+   * including command annotations such as [%clk]
+   */
+  public deleteComments = (): void => {
+    return this.edit(() => {
+      if (
+        this.game.comments?.length ||
+        this.game.comments_above_header?.length
+      ) {
+        this.emit("commentChanged", { move: null, path: null });
+      }
+      this.game.comments = null;
+      this.game.comments_above_header = null;
+
+      for (const move of this.sortedMoves) {
+        if (move.comments.length) {
+          this.emitMoveEvent("commentChanged", move);
+        }
+        move.comments = [];
+        move.ravs?.forEach((rav) => {
+          if (rav.comments_before_moves) {
+            this.emitMoveEvent("commentChanged", rav.moves[0]);
+          }
+          delete rav.comments_before_moves;
+        });
+      }
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Deletes the NAGs of every move, including suffix annotations
+   */
+  public deleteNags = (): void => {
+    return this.edit(() => {
+      this.sortedMoves.forEach((move) => delete move.nags);
+      this.rawPGN = regeneratePGN(this.game, this.moveColor);
+    });
+  };
+
+  /**
+   * Returns whether there is an edit to undo
+   */
+  public get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Returns whether there is an undone edit to redo
+   */
+  public get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Reverts the last edit, or the last transaction. Move objects are
+   * recreated, so moves should be looked up again by their number.
+   * @returns True if an edit was undone, false if there was none
+   * @throws Error if called during a transaction
+   */
+  public undo = (): boolean => {
+    return this.travelHistory(this.undoStack, this.redoStack, "undo");
+  };
+
+  /**
+   * Applies the last undone edit again. Any new edit clears the edits
+   * that can be redone.
+   * @returns True if an edit was redone, false if there was none
+   * @throws Error if called during a transaction
+   */
+  public redo = (): boolean => {
+    return this.travelHistory(this.redoStack, this.undoStack, "redo");
+  };
+
+  /**
+   * Runs several edits as one: they are undone together, and all of them
+   * are rolled back if one throws
+   * @param edits - Function performing the edits
+   * @returns The return value of the function
+   * @throws The error thrown by the function, after rolling back
+   */
+  public transaction = <T>(edits: () => T): T => {
+    return this.edit(edits);
+  };
+
+  /**
+   * Runs an edit operation, recording the previous state in the undo
+   * history if the game changed, and restoring it if the operation throws.
+   * Edits made by another edit operation are part of the outer one. Events
+   * are emitted once the outermost operation succeeds.
+   * @param operation - The edit operation
+   * @returns The return value of the operation
+   */
+  private edit = <T>(operation: () => T): T => {
+    if (this.editDepth > 0) {
+      return operation();
+    }
+
+    const before = this.takeSnapshot();
+    let value: T;
+    this.editDepth++;
+    try {
+      value = operation();
+    } catch (error) {
+      this.pendingEvents = [];
+      if (this.takeSnapshot().game !== before.game) {
+        this.restoreSnapshot(before);
+      }
+      throw error;
+    } finally {
+      this.editDepth--;
+    }
+
+    if (this.takeSnapshot().game !== before.game) {
+      this.undoStack.push(before);
+      this.undoStack.splice(0, this.undoStack.length - this.historyDepth);
+      this.redoStack = [];
+    }
+
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach((dispatch) => dispatch());
+    return value;
+  };
+
+  /**
+   * Moves the game to the last state of one history stack, saving the
+   * current state on the other
+   * @param from - The stack to take the state from
+   * @param to - The stack to save the current state on
+   * @param action - The operation, for the gameRestored event
+   * @returns True if the game changed
+   */
+  private travelHistory = (
+    from: Array<EditSnapshot>,
+    to: Array<EditSnapshot>,
+    action: "undo" | "redo"
+  ): boolean => {
+    if (this.editDepth > 0) {
+      throw Error("Cannot undo or redo during a transaction");
+    }
+    const snapshot = from.pop();
+    if (!snapshot) {
+      return false;
+    }
+
+    to.push(this.takeSnapshot());
+    this.restoreSnapshot(snapshot);
+    this.emit("gameRestored", { action });
+    return true;
+  };
+
+  /**
+   * Saves the current state of the game
+   */
+  private takeSnapshot = (): EditSnapshot => {
+    return { game: JSON.stringify(this.game), pgn: this.rawPGN };
+  };
+
+  /**
+   * Restores a saved state of the game, keeping the game object itself
+   * @param snapshot - The saved state
+   */
+  private restoreSnapshot = (snapshot: EditSnapshot) => {
+    const game = this.game as unknown as Record<string, unknown>;
+    Object.keys(game).forEach((key) => delete game[key]);
+    Object.assign(game, JSON.parse(snapshot.game));
+    this.rawPGN = snapshot.pgn;
+    this.reinitialize();
+  };
+
+  /**
+   * Subscribes to an event
+   * @param event - The event name, such as "moveAdded"
+   * @param listener - Function called with the payload of every such event
+   * @returns Function that unsubscribes the listener
+   */
+  public subscribe = <K extends PGNManagerEventName>(
+    event: K,
+    listener: PGNManagerListener<K>
+  ): (() => void) => {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event).add(listener);
+    return () => this.unsubscribe(event, listener);
+  };
+
+  /**
+   * Unsubscribes a listener from an event
+   * @param event - The event name
+   * @param listener - The listener passed to subscribe
+   */
+  public unsubscribe = <K extends PGNManagerEventName>(
+    event: K,
+    listener: PGNManagerListener<K>
+  ): void => {
+    this.listeners.get(event)?.delete(listener);
+  };
+
+  /**
+   * Emits an event, or queues it until the edit in progress succeeds
+   * @param event - The event name
+   * @param payload - The payload passed to the listeners
+   */
+  private emit = <K extends PGNManagerEventName>(
+    event: K,
+    payload: PGNManagerEvents[K]
+  ) => {
+    const dispatch = () =>
+      [...(this.listeners.get(event) || [])].forEach((listener) =>
+        listener(payload)
+      );
+
+    if (this.editDepth > 0) {
+      this.pendingEvents.push(dispatch);
+    } else {
+      dispatch();
+    }
+  };
+
+  /**
+   * Emits an event about a move, with its current path
+   * @param event - The event name
+   * @param move - The affected move
+   */
+  private emitMoveEvent = (
+    event: "moveAdded" | "variationPromoted" | "commentChanged",
+    move: Move
+  ) => {
+    this.emit(event, { move, path: this.getMovePath(move) });
+  };
+
+  /**
+   * Builds a game from a list of moves in UCI notation
+   * @param moves - The moves, such as ["e2e4", "e7e5", "g1f3"]
+   * @param startFen - The starting position, the standard one if omitted
+   * @param options - How the game is loaded
+   * @returns The new game, with the moves as its main line
+   * @throws Error if a move is not in UCI notation or is illegal
+   */
+  public static fromUCI = (
+    moves: Array<string>,
+    startFen?: string,
+    options: PGNManagerOptions = {}
+  ): PGNManager => {
+    const headers: Array<Header> = startFen
+      ? [
+          { name: "SetUp", value: "1" },
+          { name: "FEN", value: startFen },
+        ]
+      : [];
+    const game: ParsedPGN = {
+      comments_above_header: null,
+      headers,
+      comments: null,
+      moves: [],
+      result: "*",
+    };
+    const manager = new PGNManager(game, options);
+
+    let moveId = 0;
+    for (const uci of moves) {
+      const move = manager.pushMove(moveId, parseUCI(uci));
+      moveId = manager.getMoveNumber(move);
+    }
+
+    // pushMove numbers the first move 1, whatever the start position
+    manager.updateMoveTree();
+
+    // building the game is not an edit that can be undone
+    manager.undoStack = [];
+    return manager;
+  };
+
+  /**
+   * Gets the moves of the main line, or of the line through a move
+   * @param moveOrId - Any move of the line, the main line if omitted
+   * @returns The moves from the start of the game through the move to the
+   * end of its line
+   * @throws Error if the move parameter is invalid
+   */
+  public getLine = (moveOrId?: MoveRef): Array<Move> => {
+    if (moveOrId === undefined) {
+      return [...this.game.moves];
+    }
+
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveParent.has(move)) {
+      throw Error("Invalid 'move' parameter while getting line");
+    }
+
+    const line: Array<Move> = [];
+    for (let m: Move | null = move; m; m = this.getParentMove(m)) {
+      line.unshift(m);
+    }
+    const moves = this.moveParent.get(move).moves;
+    return [...line, ...moves.slice(moves.indexOf(move) + 1)];
+  };
+
+  /**
+   * Gets the move leading to the position a move is played from: the
+   * previous move of its line, or for the first move of a variation the
+   * move before the one the variation replaces
+   * @param moveOrId - The move object, move number or move id
+   * @returns The parent move, or null for a move played from the start
+   * @throws Error if the move parameter is invalid
+   */
+  public getParentMove = (moveOrId: MoveRef): Move | null => {
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveParent.has(move)) {
+      throw Error("Invalid 'move' parameter while getting parent move");
+    }
+
+    const line = this.moveParent.get(move);
+    const index = line.moves.indexOf(move);
+    if (index > 0) {
+      return line.moves[index - 1];
+    }
+    if (line === this.game) {
+      return null;
+    }
+
+    // a variation is played from the same position as the move it replaces
+    return this.getParentMove(this.ravParent.get(line));
+  };
+
+  /**
+   * Exports a line of the game as SAN moves
+   * @param moveOrId - Any move of the line, the main line if omitted
+   * @returns The moves in standard algebraic notation
+   * @throws Error if the move parameter is invalid
+   */
+  public toSAN = (moveOrId?: MoveRef): Array<string> => {
+    return this.getLine(moveOrId).map((move) => move.move);
+  };
+
+  /**
+   * Exports a line of the game as UCI moves, such as "e2e4" or "e7e8q"
+   * @param moveOrId - Any move of the line, the main line if omitted
+   * @returns The moves in UCI notation
+   * @throws Error if the move parameter is invalid or the line holds an
+   * illegal move
+   */
+  public toUCI = (moveOrId?: MoveRef): Array<string> => {
+    return this.getLine(moveOrId).map((move) =>
+      formatUCI(this.getPlayedMove(move))
+    );
+  };
+
+  /**
+   * Exports a line of the game in long algebraic notation, such as "Ng1-f3"
+   * @param moveOrId - Any move of the line, the main line if omitted
+   * @returns The moves in long algebraic notation
+   * @throws Error if the move parameter is invalid or the line holds an
+   * illegal move
+   */
+  public toLAN = (moveOrId?: MoveRef): Array<string> => {
+    return this.getLine(moveOrId).map((move) =>
+      formatLAN(this.getPlayedMove(move))
+    );
+  };
+
+  /**
+   * Gets the squares and pieces of a legal move
+   * @param move - The move object
+   * @throws Error if the move could not be played
+   */
+  private getPlayedMove = (move: Move): PlayedMove => {
+    const played = this.movePlayed.get(move);
+    if (!played) {
+      throw Error("Cannot export illegal move: " + move.move);
+    }
+    return played;
+  };
+
+  /**
+   * Classifies the opening of the game by matching the positions of its
+   * main line against an ECO table, so that transpositions are recognized
+   * @param options - The table to use, and whether to write the headers
+   * @returns The deepest matching opening, with the move it was reached at
+   * and the move leaving theory, or null if no position matches
+   */
+  public classifyOpening = (
+    options: OpeningOptions = {}
+  ): OpeningInfo | null => {
+    if (this.isChess960) {
+      return null;
+    }
+
+    const index = getEcoIndex(options.table);
+    const moves = this.game.moves;
+    let deepest = -1;
+    moves.forEach((move, i) => {
+      // an illegal move and the moves after it have no position of their own
+      const position = normalizeFen(this.moveFen.get(move));
+      if (this.movePlayed.has(move) && index.has(position)) {
+        deepest = i;
+      }
+    });
+    if (deepest === -1) {
+      return null;
+    }
+
+    const move = moves[deepest];
+    const entry = index.get(normalizeFen(this.moveFen.get(move)));
+    const opening: OpeningInfo = {
+      eco: entry.eco,
+      ...splitOpeningName(entry.name),
+      move,
+      leftTheory: moves[deepest + 1] || null,
+    };
+
+    if (options.setHeaders) {
+      this.transaction(() => {
+        this.setHeader("ECO", opening.eco);
+        this.setHeader("Opening", opening.opening);
+        if (opening.variation) {
+          this.setHeader("Variation", opening.variation);
+        } else {
+          this.removeHeader("Variation");
+        }
+      });
+    }
+    return opening;
+  };
+
+  /**
+   * Gets the material of the position after a move
+   * @param moveOrId - The move object, move number or move id, null for the
+   * starting position
+   * @returns The pieces, material values and difference, the pieces captured
+   * so far and the phase of the position
+   * @throws Error if the move parameter is invalid
+   */
+  public getMaterial = (moveOrId: MoveRef | null = null): MaterialBalance => {
+    if (moveOrId === null) {
+      return getMaterialBalance(this.startFen, { w: [], b: [] });
+    }
+
+    const move = this.resolveMove(moveOrId);
+    if (!move || !this.moveFen.has(move)) {
+      throw Error("Invalid 'move' parameter while getting material");
+    }
+    const line = this.getLine(move);
+    return this.getLineMaterial(line.slice(0, line.indexOf(move) + 1)).pop();
+  };
+
+  /**
+   * Gets the material after every move of a line, for plotting
+   * @param moveOrId - Any move of the line, the main line if omitted
+   * @returns The material values, difference and phase after each move
+   * @throws Error if the move parameter is invalid
+   */
+  public getMaterialSeries = (moveOrId?: MoveRef): MaterialSeries => {
+    const line = this.getLine(moveOrId);
+    const material = this.getLineMaterial(line);
+    return {
+      moves: line.map((move) => move.move),
+      white: material.map((balance) => balance.value.w),
+      black: material.map((balance) => balance.value.b),
+      difference: material.map((balance) => balance.difference),
+      phase: material.map((balance) => balance.phase),
+    };
+  };
+
+  /**
+   * Gets the material after every move of a line starting at the first move
+   * @param line - The moves of the line
+   * @returns The material balance after each move
+   */
+  private getLineMaterial = (line: Array<Move>): Array<MaterialBalance> => {
+    const captured = { w: [] as Array<PieceType>, b: [] as Array<PieceType> };
+    return line.map((move) => {
+      // illegal moves have no capture, their FEN is the last legal position
+      const played = this.movePlayed.get(move);
+      if (played && played.captured) {
+        const color = this.moveColor.get(move) === "w" ? "b" : "w";
+        captured[color].push(played.captured as PieceType);
+      }
+      return getMaterialBalance(this.moveFen.get(move), captured);
+    });
+  };
+
+  /**
+   * Exports the whole game, variations included, as a JSON tree.
+   * Also used by JSON.stringify.
+   * @returns The headers, result, comments and moves of the game
+   */
+  public toJSON = (): GameJSON => {
+    const textOf = (comments: Array<MoveComment>) =>
+      comments.map(getCommentText).filter((text) => text !== null);
+
+    const moveToJSON = (move: Move): MoveJSON => {
+      const played = this.movePlayed.get(move);
+      const color = this.moveColor.get(move);
+      const fen = this.moveFen.get(move);
+
+      // the FEN of an illegal move is the position before it
+      const diagnostic = this.diagnostics.find((d) => d.move === move);
+      const fullMove = parseInt(fen.split(" ")[5], 10);
+      const moveNumber = diagnostic
+        ? diagnostic.moveNumber
+        : fullMove - (color === "b" ? 1 : 0);
+
+      return {
+        id: move.id,
+        san: move.move,
+        uci: played ? formatUCI(played) : null,
+        lan: played ? formatLAN(played) : null,
+        fen,
+        color,
+        moveNumber,
+        comments: textOf(move.comments),
+        nags: [...(move.nags || [])],
+        clock: findCommand(move.comments, "clk")?.values[0] || null,
+        variations: (move.ravs || []).map((rav) => ({
+          comments: [...(rav.comments_before_moves || [])],
+          moves: rav.moves.map(moveToJSON),
+        })),
+      };
+    };
+
+    return {
+      headers: this.headers.map((header) => ({ ...header })),
+      result: this.game.result,
+      comments: textOf(this.game.comments || []),
+      moves: this.game.moves.map(moveToJSON),
+    };
   };
 }
 
 export default PGNManager;
+export { default as PGNDatabase } from "./database";
+export { EXPORT_FORMAT } from "./utils";
+export type { FormatOptions } from "./utils";
+export { default as GameCursor } from "./cursor";
+export type { LegalMove } from "./cursor";
+export { default as TimeAnalysis, parseTimeControl } from "./timing";
+export { default as OpeningTree } from "./tree";
+export type {
+  TreeMove,
+  OpeningTreeOptions,
+  OpeningTreeExportOptions,
+} from "./tree";
+export type { TimeControlPeriod, MoveTime, ClockPoint } from "./timing";
+export {
+  filterGames,
+  sortGames,
+  getPlayerStats,
+  getStandings,
+  getPerformanceRating,
+} from "./query";
+export type {
+  GameFilter,
+  GameSortKey,
+  ColorRecord,
+  PlayerStats,
+} from "./query";
+export { parsePGNDate } from "./headers";
+export type { PGNDate } from "./headers";
+export { searchGames } from "./search";
+export type { PositionQuery, SearchMatch } from "./search";
+export { ECO_TABLE, getEcoIndex } from "./eco";
+export type { EcoEntry, OpeningInfo, OpeningOptions } from "./eco";
+export {
+  getGamePhase,
+  countPieces,
+  getMaterialValue,
+  getMaterialSignature,
+  PIECE_VALUES,
+} from "./material";
+export type {
+  GamePhase,
+  PieceType,
+  PieceCounts,
+  MaterialBalance,
+  MaterialSeries,
+} from "./material";
+export { NAG_SYMBOLS, nagToSymbol, toNag } from "./nags";
+export type { MoveComment, CommentCommand } from "./comments";
+export { parseClock, formatClock } from "./annotations";
+export type {
+  Arrow,
+  Highlight,
+  Evaluation,
+  AnnotationColor,
+} from "./annotations";
+export { splitGames, readGames, readHeaders, readHeaderRecord } from "./stream";
+export type { PGNChunk, PGNHeaderRecord } from "./stream";
@@ -0,0 +1,44 @@
+import PGNLexer, { LexerState } from "./lexer";
+
+describe("PGNLexer", () => {
+  const read = (text: string): Array<LexerState> => {
+    const lexer = new PGNLexer();
+    return [...text].map((c) => lexer.read(c));
+  };
+
+  it("should read the characters opening comments and tags as text", () => {
+    expect(read("e4 {x} e5")).toEqual([
+      "text",
+      "text",
+      "text",
+      "text",
+      "comment",
+      "comment",
+      "text",
+      "text",
+      "text",
+    ]);
+    expect(read("; e4\ne5").slice(-2)).toEqual(["text", "text"]);
+  });
+
+  it("should skip escaped characters in tag values", () => {
+    const lexer = new PGNLexer();
+    for (const c of '[Event "A \\" B \\\\"]') {
+      lexer.read(c);
+    }
+    expect(lexer.state).toBe("text");
+    expect(read('[Event "\\"]')).toEqual([
+      "text",
+      "tag",
+      "tag",
+      "tag",
+      "tag",
+      "tag",
+      "tag",
+      "tag",
+      "string",
+      "escape",
+      "string",
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Where a character of PGN text stands: movetext, a brace or rest-of-line
+ * comment, a tag pair, a tag value, or the character after a backslash in
+ * a tag value
+ */
+export type LexerState =
+  | "text"
+  | "comment"
+  | "line"
+  | "tag"
+  | "string"
+  | "escape";
+
+/**
+ * Tells movetext apart from comments and tag pairs, one character at a
+ * time, so that the text can arrive in chunks
+ */
+class PGNLexer {
+  /** State of the next character */
+  public state: LexerState = "text";
+
+  /**
+   * Reads one character
+   * @param c - The character
+   * @returns The state the character was read in; "text" for movetext, the
+   * characters opening a comment or a tag pair included
+   */
+  public read = (c: string): LexerState => {
+    const state = this.state;
+    switch (state) {
+      case "comment":
+        if (c === "}") this.state = "text";
+        break;
+      case "line":
+        if (c === "\n") this.state = "text";
+        break;
+      case "string":
+        if (c === "\\") this.state = "escape";
+        else if (c === '"') this.state = "tag";
+        break;
+      case "escape":
+        this.state = "string";
+        break;
+      case "tag":
+        if (c === '"') this.state = "string";
+        else if (c === "]") this.state = "text";
+        break;
+      default:
+        if (c === "{") this.state = "comment";
+        else if (c === ";") this.state = "line";
+        else if (c === "[") this.state = "tag";
+    }
+    return state;
+  };
+}
+
+export default PGNLexer;
@@ -0,0 +1,65 @@
+import {
+  getGamePhase,
+  countPieces,
+  getMaterialValue,
+  getMaterialBalance,
+  getMaterialSignature,
+  normalizeMaterialSignature,
+} from "./material";
+
+describe("Material", () => {
+  describe("getGamePhase", () => {
+    it("should classify the starting position as opening", () => {
+      expect(
+        getGamePhase("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1")
+      ).toBe("opening");
+    });
+
+    it("should start the middlegame when a back rank is sparse", () => {
+      const fen = "r4rk1/ppp2ppp/2n5/3qp3/8/2NP1N2/PPP2PPP/R2Q1RK1 w - - 0 10";
+      expect(getGamePhase(fen)).toBe("middlegame");
+    });
+
+    it("should start the endgame when few pieces are left", () => {
+      expect(getGamePhase("4k3/pp6/8/8/8/8/PP6/R3K3 w - - 0 40")).toBe(
+        "endgame"
+      );
+    });
+  });
+
+  describe("countPieces", () => {
+    it("should count the pieces of both sides", () => {
+      const pieces = countPieces("4k3/pp6/8/8/8/8/PP6/R3K3 w - - 0 40");
+      expect(pieces.w).toEqual({ p: 2, n: 0, b: 0, r: 1, q: 0, k: 1 });
+      expect(pieces.b).toEqual({ p: 2, n: 0, b: 0, r: 0, q: 0, k: 1 });
+      expect(getMaterialValue(pieces.w)).toBe(7);
+    });
+  });
+
+  describe("getMaterialBalance", () => {
+    it("should compute values, difference and captured pieces", () => {
+      const balance = getMaterialBalance(
+        "rnb1kbnr/ppp1pppp/8/3q4/8/8/PPPP1PPP/RNBQKBNR w KQkq - 0 3",
+        { w: ["p"], b: ["p"] }
+      );
+      expect(balance.value).toEqual({ w: 38, b: 38 });
+      expect(balance.difference).toBe(0);
+      expect(balance.captured).toEqual({ w: ["p"], b: ["p"] });
+      expect(balance.phase).toBe("opening");
+    });
+  });
+
+  describe("material signatures", () => {
+    it("should write the pieces of both sides in order", () => {
+      const fen = "4k3/pp6/8/8/8/8/PP6/R3K3 w - - 0 40";
+      expect(getMaterialSignature(fen)).toBe("KRPPvKPP");
+    });
+
+    it("should normalize signatures", () => {
+      expect(normalizeMaterialSignature("pkrvrk")).toBe("KRPvKR");
+      expect(() => normalizeMaterialSignature("KRP")).toThrow(
+        "Invalid material signature: KRP"
+      );
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/** Phase of the game a position belongs to */
+export type GamePhase = "opening" | "middlegame" | "endgame";
+
+/** Piece types, as chess.js writes them */
+export type PieceType = "p" | "n" | "b" | "r" | "q" | "k";
+
+/** Number of pieces of each type one side has on the board */
+export type PieceCounts = Record<PieceType, number>;
+
+/** Material of a position, from white's point of view where it matters */
+export type MaterialBalance = {
+  /** Pieces on the board per color */
+  pieces: { w: PieceCounts; b: PieceCounts };
+  /** Material value per color, in pawns */
+  value: { w: number; b: number };
+  /** White's material value minus black's */
+  difference: number;
+  /** Pieces captured so far in the line, by the color that lost them */
+  captured: { w: Array<PieceType>; b: Array<PieceType> };
+  phase: GamePhase;
+};
+
+/** Material of every position of a line, as parallel arrays for plotting */
+export type MaterialSeries = {
+  /** SAN of the moves */
+  moves: Array<string>;
+  /** White's material value after each move */
+  white: Array<number>;
+  /** Black's material value after each move */
+  black: Array<number>;
+  /** Material difference after each move */
+  difference: Array<number>;
+  /** Phase of the position after each move */
+  phase: Array<GamePhase>;
+};
+
+/** Values of the pieces in pawns */
+export const PIECE_VALUES: Record<PieceType, number> = {
+  p: 1,
+  n: 3,
+  b: 3,
+  r: 5,
+  q: 9,
+  k: 0,
+};
+
+/**
+ * Classifies a position as opening, middlegame or endgame. The endgame
+ * starts when at most 6 minor and major pieces are left; the middlegame
+ * when at most 10 are left, or when either side has moved all but 3 of
+ * its pieces off its back rank.
+ * @param fen - The FEN of the position
+ * @returns The phase of the position
+ */
+export function getGamePhase(fen: string): GamePhase {
+  const ranks = fen.split(" ")[0].split("/");
+  const pieces = (ranks.join("").match(/[nbrqNBRQ]/g) || []).length;
+  if (pieces <= 6) return "endgame";
+
+  const backRank = (rank: string, color: RegExp) =>
+    (rank.match(color) || []).length;
+  const sparse =
+    backRank(ranks[7], /[A-Z]/g) < 4 || backRank(ranks[0], /[a-z]/g) < 4;
+  return pieces <= 10 || sparse ? "middlegame" : "opening";
+}
+
+/**
+ * Counts the pieces of both sides in a position
+ * @param fen - The FEN of the position
+ * @returns The number of pieces of each type, per color
+ */
+export function countPieces(fen: string): { w: PieceCounts; b: PieceCounts } {
+  const empty = () => ({ p: 0, n: 0, b: 0, r: 0, q: 0, k: 0 });
+  const pieces = { w: empty(), b: empty() };
+
+  for (const c of fen.split(" ")[0]) {
+    const type = c.toLowerCase() as PieceType;
+    if (type in PIECE_VALUES) {
+      pieces[c === type ? "b" : "w"][type]++;
+    }
+  }
+  return pieces;
+}
+
+/** Order of the pieces in a material signature */
+const SIGNATURE_ORDER: Array<PieceType> = ["k", "q", "r", "b", "n", "p"];
+
+/**
+ * Gets the material signature of a position, such as "KRPPvKR": white's
+ * pieces, then black's, from the king down to the pawns
+ * @param fen - The FEN of the position
+ * @returns The material signature
+ */
+export function getMaterialSignature(fen: string): string {
+  const pieces = countPieces(fen);
+  const side = (counts: PieceCounts) =>
+    SIGNATURE_ORDER.map((type) => type.repeat(counts[type]))
+      .join("")
+      .toUpperCase();
+  return side(pieces.w) + "v" + side(pieces.b);
+}
+
+/**
+ * Writes a material signature in the order getMaterialSignature uses
+ * @param signature - A signature with the pieces in any order, such as "KPRvRK"
+ * @returns The normalized signature
+ * @throws Error if the signature is invalid
+ */
+export function normalizeMaterialSignature(signature: string): string {
+  const sides = signature.toUpperCase().split("V");
+  if (sides.length !== 2 || !sides.every((side) => /^[KQRBNP]*$/.test(side))) {
+    throw Error("Invalid material signature: " + signature);
+  }
+  const order = SIGNATURE_ORDER.join("").toUpperCase();
+  const sort = (side: string) =>
+    [...side].sort((a, b) => order.indexOf(a) - order.indexOf(b)).join("");
+  return sort(sides[0]) + "v" + sort(sides[1]);
+}
+
+/**
+ * Gets the material value of one side
+ * @param counts - The pieces of the side
+ * @returns The value in pawns
+ */
+export function getMaterialValue(counts: PieceCounts): number {
+  return (Object.keys(counts) as Array<PieceType>).reduce(
+    (value, type) => value + counts[type] * PIECE_VALUES[type],
+    0
+  );
+}
+
+/**
+ * Gets the material of a position
+ * @param fen - The FEN of the position
+ * @param captured - The pieces captured in the moves leading to it
+ * @returns The material balance of the position
+ */
+export function getMaterialBalance(
+  fen: string,
+  captured: { w: Array<PieceType>; b: Array<PieceType> }
+): MaterialBalance {
+  const pieces = countPieces(fen);
+  const value = {
+    w: getMaterialValue(pieces.w),
+    b: getMaterialValue(pieces.b),
+  };
+  return {
+    pieces,
+    value,
+    difference: value.w - value.b,
+    captured: { w: [...captured.w], b: [...captured.b] },
+    phase: getGamePhase(fen),
+  };
+}
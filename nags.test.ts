@@ -0,0 +1,79 @@
+import type { Move } from "pgn-parser";
+import {
+  NAG_SYMBOLS,
+  nagToSymbol,
+  toNag,
+  normalizeSuffixAnnotation,
+  formatMoveWithNags,
+} from "./nags";
+
+describe("NAGs", () => {
+  describe("nagToSymbol", () => {
+    it("should map NAGs to their glyphs", () => {
+      expect(nagToSymbol("$1")).toBe("!");
+      expect(nagToSymbol("$6")).toBe("?!");
+      expect(nagToSymbol("$14")).toBe("⩲");
+      expect(nagToSymbol("$146")).toBe("N");
+    });
+
+    it("should return NAGs without a glyph unchanged", () => {
+      expect(nagToSymbol("$200")).toBe("$200");
+    });
+
+    it("should expose the glyph table", () => {
+      expect(NAG_SYMBOLS.$16).toBe("±");
+    });
+  });
+
+  describe("toNag", () => {
+    it("should accept codes and numbers", () => {
+      expect(toNag("$14")).toBe("$14");
+      expect(toNag("14")).toBe("$14");
+      expect(toNag(14)).toBe("$14");
+    });
+
+    it("should accept glyphs and their ASCII spellings", () => {
+      expect(toNag("!?")).toBe("$5");
+      expect(toNag("±")).toBe("$16");
+      expect(toNag("+/-")).toBe("$16");
+      expect(toNag("⨀")).toBe("$22");
+    });
+
+    it("should throw error for unknown NAGs", () => {
+      expect(() => toNag("$256")).toThrow("Invalid NAG: $256");
+      expect(() => toNag("foo")).toThrow("Invalid NAG: foo");
+    });
+  });
+
+  describe("normalizeSuffixAnnotation", () => {
+    it("should move suffix annotations into the NAGs", () => {
+      const move: Move = { move: "Qxh7#!!", comments: [], nags: ["$18"] };
+      normalizeSuffixAnnotation(move);
+      expect(move.move).toBe("Qxh7#");
+      expect(move.nags).toEqual(["$3", "$18"]);
+    });
+
+    it("should not duplicate a NAG already present", () => {
+      const move: Move = { move: "e4?!", comments: [], nags: ["$6"] };
+      normalizeSuffixAnnotation(move);
+      expect(move.nags).toEqual(["$6"]);
+    });
+
+    it("should leave moves without annotation unchanged", () => {
+      const move: Move = { move: "e4", comments: [] };
+      normalizeSuffixAnnotation(move);
+      expect(move).toEqual({ move: "e4", comments: [] });
+    });
+  });
+
+  describe("formatMoveWithNags", () => {
+    it("should write the move assessment as a suffix", () => {
+      const move: Move = { move: "e4", comments: [], nags: ["$14", "$1"] };
+      expect(formatMoveWithNags(move)).toBe("e4! $14");
+    });
+
+    it("should write a single move without NAGs as is", () => {
+      expect(formatMoveWithNags({ move: "e4", comments: [] })).toBe("e4");
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { Move } from "pgn-parser";
+
+declare module "pgn-parser" {
+  interface Move {
+    /** Numeric annotation glyphs of the move, such as "$1" or "$14" */
+    nags?: string[];
+  }
+}
+
+/** Display glyphs of the numeric annotation glyphs that have one */
+export const NAG_SYMBOLS: Record<string, string> = {
+  $1: "!",
+  $2: "?",
+  $3: "!!",
+  $4: "??",
+  $5: "!?",
+  $6: "?!",
+  $7: "□",
+  $10: "=",
+  $13: "∞",
+  $14: "⩲",
+  $15: "⩱",
+  $16: "±",
+  $17: "∓",
+  $18: "+−",
+  $19: "−+",
+  $22: "⨀",
+  $23: "⨀",
+  $32: "⟳",
+  $33: "⟳",
+  $36: "→",
+  $37: "→",
+  $40: "↑",
+  $41: "↑",
+  $44: "=∞",
+  $45: "=∞",
+  $132: "⇆",
+  $133: "⇆",
+  $138: "⊕",
+  $139: "⊕",
+  $140: "∆",
+  $142: "⌓",
+  $145: "RR",
+  $146: "N",
+};
+
+/** Move assessments that PGN allows to be written directly after the SAN */
+const SUFFIX_ANNOTATIONS: Record<string, string> = {
+  "!": "$1",
+  "?": "$2",
+  "!!": "$3",
+  "??": "$4",
+  "!?": "$5",
+  "?!": "$6",
+};
+
+/** ASCII spellings of position assessments */
+const ASCII_SYMBOLS: Record<string, string> = {
+  "+/=": "$14",
+  "=/+": "$15",
+  "+/-": "$16",
+  "-/+": "$17",
+  "+-": "$18",
+  "-+": "$19",
+};
+
+/**
+ * Gets the display glyph of a NAG
+ * @param nag - The NAG, such as "$14"
+ * @returns The glyph, or the NAG itself if it has none
+ */
+export function nagToSymbol(nag: string): string {
+  return NAG_SYMBOLS[nag] || nag;
+}
+
+/**
+ * Converts a NAG in any accepted spelling to its "$n" form
+ * @param nag - A "$n" code, its number, or a glyph such as "!?" or "±"
+ * @returns The "$n" form of the NAG
+ * @throws Error if the NAG is not recognized
+ */
+export function toNag(nag: string | number): string {
+  if (typeof nag === "number") {
+    nag = `$${nag}`;
+  }
+  if (/^\$?\d+$/.test(nag)) {
+    const code = parseInt(nag.replace("$", ""), 10);
+    if (code <= 255) return `$${code}`;
+  }
+
+  const fromSymbol =
+    SUFFIX_ANNOTATIONS[nag] ||
+    ASCII_SYMBOLS[nag] ||
+    Object.keys(NAG_SYMBOLS).find((code) => NAG_SYMBOLS[code] === nag);
+  if (!fromSymbol) {
+    throw Error("Invalid NAG: " + nag);
+  }
+  return fromSymbol;
+}
+
+/**
+ * Moves a suffix annotation such as "e4!" from the SAN into the NAGs
+ * @param move - The move to normalize, updated in place
+ */
+export function normalizeSuffixAnnotation(move: Move): void {
+  const match = move.move.match(/^(.*?)([!?]{1,2})$/);
+  if (!match || !SUFFIX_ANNOTATIONS[match[2]]) return;
+
+  move.move = match[1];
+  const nag = SUFFIX_ANNOTATIONS[match[2]];
+  move.nags = [nag, ...(move.nags || []).filter((n) => n !== nag)];
+}
+
+/**
+ * Formats a move with its NAGs, writing the first move assessment
+ * ($1 to $6) as a suffix of the SAN and the others as "$n" codes
+ * @param move - The move to format
+ * @returns The SAN followed by its NAGs
+ */
+export function formatMoveWithNags(move: Move): string {
+  const nags = move.nags || [];
+  const suffix = nags.find((nag) =>
+    Object.values(SUFFIX_ANNOTATIONS).includes(nag)
+  );
+
+  const parts = [move.move + (suffix ? NAG_SYMBOLS[suffix] : "")];
+  nags.filter((nag) => nag !== suffix).forEach((nag) => parts.push(nag));
+  return parts.join(" ");
+}
@@ -0,0 +1,62 @@
+import { formatUCI, formatLAN, parseUCI } from "./notation";
+
+describe("Notation", () => {
+  const knight = { from: "g1", to: "f3", piece: "n", san: "Nf3" };
+  const capture = {
+    from: "e4",
+    to: "d5",
+    piece: "p",
+    captured: "p",
+    san: "exd5",
+  };
+  const promotion = {
+    from: "e7",
+    to: "e8",
+    piece: "p",
+    promotion: "q",
+    san: "e8=Q+",
+  };
+
+  describe("formatUCI", () => {
+    it("should write the from and to squares", () => {
+      expect(formatUCI(knight)).toBe("g1f3");
+      expect(formatUCI(capture)).toBe("e4d5");
+    });
+
+    it("should append the promotion piece", () => {
+      expect(formatUCI(promotion)).toBe("e7e8q");
+    });
+  });
+
+  describe("formatLAN", () => {
+    it("should write the piece and both squares", () => {
+      expect(formatLAN(knight)).toBe("Ng1-f3");
+      expect(formatLAN(capture)).toBe("e4xd5");
+    });
+
+    it("should write promotions and checks", () => {
+      expect(formatLAN(promotion)).toBe("e7-e8=Q+");
+    });
+
+    it("should write castling as in SAN", () => {
+      const castling = { from: "e1", to: "g1", piece: "k", san: "O-O#" };
+      expect(formatLAN(castling)).toBe("O-O#");
+    });
+  });
+
+  describe("parseUCI", () => {
+    it("should parse moves and promotions", () => {
+      expect(parseUCI("e2e4")).toEqual({ from: "e2", to: "e4" });
+      expect(parseUCI("E7E8Q")).toEqual({
+        from: "e7",
+        to: "e8",
+        promotion: "q",
+      });
+    });
+
+    it("should throw error for invalid moves", () => {
+      expect(() => parseUCI("e2-e4")).toThrow("Invalid UCI move: e2-e4");
+      expect(() => parseUCI("e7e8k")).toThrow("Invalid UCI move");
+    });
+  });
+});
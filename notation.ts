@@ -0,0 +1,61 @@
+import type { ShortMove } from "./index";
+
+/** Squares and pieces of a legal move, as reported by chess.js */
+export type PlayedMove = {
+  from: string;
+  to: string;
+  /** The moving piece, lowercase: "p", "n", "b", "r", "q" or "k" */
+  piece: string;
+  /** The captured piece, lowercase, for captures */
+  captured?: string;
+  /** The piece a pawn promotes to, lowercase */
+  promotion?: string;
+  san: string;
+};
+
+/** Matches a move in UCI notation, such as "e2e4" or "e7e8q" */
+const UCI_MOVE = /^([a-h][1-8])([a-h][1-8])([nbrq])?$/;
+
+/**
+ * Formats a move in UCI notation
+ * @param move - The played move
+ * @returns The move as from and to squares, such as "e2e4" or "e7e8q"
+ */
+export function formatUCI(move: PlayedMove): string {
+  return move.from + move.to + (move.promotion || "");
+}
+
+/**
+ * Formats a move in long algebraic notation
+ * @param move - The played move
+ * @returns The move with its from square, such as "Ng1-f3", "e4xd5" or
+ * "e7-e8=Q+"; castling is written as in SAN
+ */
+export function formatLAN(move: PlayedMove): string {
+  if (move.san.startsWith("O-O")) {
+    return move.san;
+  }
+
+  const piece = move.piece === "p" ? "" : move.piece.toUpperCase();
+  const promotion = move.promotion ? "=" + move.promotion.toUpperCase() : "";
+  const check = move.san.match(/[+#]$/)?.[0] || "";
+  return (
+    piece + move.from + (move.captured ? "x" : "-") + move.to + promotion + check
+  );
+}
+
+/**
+ * Parses a move in UCI notation
+ * @param uci - The move, such as "e2e4" or "e7e8q"
+ * @returns The move as from and to squares
+ * @throws Error if the move is not in UCI notation
+ */
+export function parseUCI(uci: string): ShortMove {
+  const match = uci.trim().toLowerCase().match(UCI_MOVE);
+  if (!match) {
+    throw Error("Invalid UCI move: " + uci);
+  }
+
+  const [, from, to, promotion] = match;
+  return promotion ? { from, to, promotion } : { from, to };
+}
@@ -0,0 +1,193 @@
+import PGNManager, {
+  filterGames,
+  sortGames,
+  getPlayerStats,
+  getStandings,
+  getPerformanceRating,
+} from "./index";
+
+describe("Game queries", () => {
+  const game = (tags: Record<string, string>, result: string) =>
+    new PGNManager(
+      Object.entries({ ...tags, Result: result })
+        .map(([name, value]) => `[${name} "${value}"]`)
+        .join("\n") + `\n\n1. e4 e5 ${result}`
+    );
+
+  const games = [
+    game(
+      {
+        Event: "Candidates",
+        Date: "2024.03.15",
+        Round: "2",
+        White: "Carlsen, Magnus",
+        Black: "Nakamura, Hikaru",
+        WhiteElo: "2850",
+        BlackElo: "2780",
+        ECO: "B90",
+      },
+      "1-0"
+    ),
+    game(
+      {
+        Event: "Candidates",
+        Date: "2024.??.??",
+        Round: "10",
+        White: "Nakamura, Hikaru",
+        Black: "Carlsen, Magnus",
+        WhiteElo: "2780",
+        BlackElo: "2850",
+        ECO: "C65",
+      },
+      "1/2-1/2"
+    ),
+    game(
+      {
+        Event: "Rapid",
+        Date: "2023.12.01",
+        Round: "1.2",
+        White: "Caruana, Fabiano",
+        Black: "Carlsen, Magnus",
+        WhiteElo: "2800",
+        BlackElo: "2850",
+        ECO: "E20",
+      },
+      "0-1"
+    ),
+    game(
+      {
+        Event: "Blitz",
+        Date: "????.??.??",
+        Round: "?",
+        White: "Carlsen, Magnus",
+        Black: "Caruana, Fabiano",
+      },
+      "*"
+    ),
+  ];
+
+  describe("filterGames", () => {
+    it("should match players and results", () => {
+      expect(filterGames(games, { player: "carlsen" })).toEqual(games);
+      expect(filterGames(games, { white: "carlsen" })).toEqual([
+        games[0],
+        games[3],
+      ]);
+      expect(filterGames(games, { result: ["1-0", "0-1"] })).toEqual([
+        games[0],
+        games[2],
+      ]);
+    });
+
+    it("should match partial dates that can fall in the range", () => {
+      expect(filterGames(games, { dateFrom: "2024.01.01" })).toEqual([
+        games[0],
+        games[1],
+      ]);
+      const range = { dateFrom: "2024.03.16", dateTo: "2024.12.31" };
+      expect(filterGames(games, range)).toEqual([games[1]]);
+      expect(filterGames(games, { dateTo: "2023.??.??" })).toEqual([
+        games[2],
+      ]);
+    });
+
+    it("should match ratings and ECO codes", () => {
+      expect(filterGames(games, { minElo: 2790 })).toEqual([games[2]]);
+      expect(filterGames(games, { eco: "B" })).toEqual([games[0]]);
+      expect(filterGames(games, { eco: "C00-E99" })).toEqual([
+        games[1],
+        games[2],
+      ]);
+    });
+
+    it("should combine criteria", () => {
+      const filter = {
+        event: "candidates",
+        where: (g: PGNManager) => g.getHeader("Round") === "10",
+      };
+      expect(filterGames(games, filter)).toEqual([games[1]]);
+    });
+
+    it("should throw on an invalid date", () => {
+      expect(() => filterGames(games, { dateFrom: "2024-01-01" })).toThrow(
+        "Invalid date: 2024-01-01"
+      );
+    });
+  });
+
+  describe("sortGames", () => {
+    it("should sort by date, unknown dates last", () => {
+      expect(sortGames(games, "date")).toEqual([
+        games[2],
+        games[1],
+        games[0],
+        games[3],
+      ]);
+      expect(sortGames(games, "date", "desc")).toEqual([
+        games[0],
+        games[1],
+        games[2],
+        games[3],
+      ]);
+    });
+
+    it("should sort rounds as numbers", () => {
+      expect(sortGames(games, "round")).toEqual([
+        games[2],
+        games[0],
+        games[1],
+        games[3],
+      ]);
+    });
+
+    it("should sort by several keys", () => {
+      expect(sortGames(games, ["event", "round"])).toEqual([
+        games[3],
+        games[0],
+        games[1],
+        games[2],
+      ]);
+    });
+  });
+
+  describe("Player statistics", () => {
+    it("should compute a performance rating", () => {
+      expect(getPerformanceRating(2000, 1)).toBe(2800);
+      expect(getPerformanceRating(2000, 0.5)).toBe(2000);
+      expect(getPerformanceRating(2000, 0.75)).toBe(2191);
+      expect(getPerformanceRating(2000, 0)).toBe(1200);
+    });
+
+    it("should count results by color, skipping unfinished games", () => {
+      const stats = getPlayerStats(games, "carlsen, magnus");
+      expect(stats.player).toBe("Carlsen, Magnus");
+      expect(stats).toMatchObject({
+        games: 3,
+        wins: 2,
+        draws: 1,
+        losses: 0,
+        score: 2.5,
+      });
+      expect(stats.white).toEqual({
+        games: 1,
+        wins: 1,
+        draws: 0,
+        losses: 0,
+        score: 1,
+      });
+      expect(stats.black.score).toBe(1.5);
+      expect(stats.averageOpponentElo).toBe(2787);
+      expect(stats.performance).toBe(3066);
+    });
+
+    it("should rank the players", () => {
+      const standings = getStandings(games);
+      expect(standings.map((stats) => [stats.player, stats.score])).toEqual([
+        ["Carlsen, Magnus", 2.5],
+        ["Nakamura, Hikaru", 0.5],
+        ["Caruana, Fabiano", 0],
+      ]);
+      expect(standings[2].performance).toBe(2050);
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import type { Result } from "pgn-parser";
+
+import PGNManager from "./index";
+import { PGNDate, parsePGNDate } from "./headers";
+
+/**
+ * Header criteria a game has to match. Names and events match any part of
+ * the tag value, ignoring case.
+ */
+export type GameFilter = {
+  /** A player of either color */
+  player?: string;
+  white?: string;
+  black?: string;
+  event?: string;
+  site?: string;
+  /** The result, or any of several results */
+  result?: Result | Array<Result>;
+  /**
+   * First and last dates, as PGN dates; a game with a partial date such as
+   * "2024.??.??" matches if its date can fall in the range, a game without
+   * a known year never matches
+   */
+  dateFrom?: string;
+  dateTo?: string;
+  /** Lowest and highest rating of both players, from WhiteElo and BlackElo */
+  minElo?: number;
+  maxElo?: number;
+  /** An ECO code ("B90"), its beginning ("B9", "B") or a range ("B20-B99") */
+  eco?: string;
+  /** Any other criterion */
+  where?: (game: PGNManager) => boolean;
+};
+
+/** What games can be sorted by */
+export type GameSortKey =
+  | "date"
+  | "event"
+  | "site"
+  | "round"
+  | "white"
+  | "black"
+  | "result"
+  | "eco"
+  | "whiteElo"
+  | "blackElo";
+
+/** Games, wins, draws and losses of a player with one color */
+export type ColorRecord = {
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  /** Points scored: 1 per win, 0.5 per draw */
+  score: number;
+};
+
+/** Results of a player over a collection of games */
+export type PlayerStats = ColorRecord & {
+  player: string;
+  white: ColorRecord;
+  black: ColorRecord;
+  /** Average rating of the opponents, null if none is rated */
+  averageOpponentElo: number | null;
+  /** Performance rating against the rated opponents, null if none is rated */
+  performance: number | null;
+};
+
+/**
+ * Gets the earliest and latest day a PGN date can stand for
+ * @param date - The parsed date
+ * @returns Both days as yyyymmdd numbers
+ */
+function getDateRange(date: PGNDate): [number, number] {
+  if (date.year === null) {
+    return [-Infinity, Infinity];
+  }
+  const day = (month: number, dayOfMonth: number) =>
+    date.year * 10000 + month * 100 + dayOfMonth;
+  if (date.month === null) {
+    return [day(1, 1), day(12, 31)];
+  }
+  if (date.day === null) {
+    return [day(date.month, 1), day(date.month, 31)];
+  }
+  return [day(date.month, date.day), day(date.month, date.day)];
+}
+
+/**
+ * Parses a date of a filter
+ * @param value - A PGN date
+ * @throws Error if the value is not a PGN date
+ */
+function parseFilterDate(value: string): PGNDate {
+  const date = parsePGNDate(value);
+  if (!date) {
+    throw Error("Invalid date: " + value);
+  }
+  return date;
+}
+
+/**
+ * Reads a rating tag of a game
+ * @param game - The game
+ * @param name - The tag name
+ * @returns The rating, or null if the game has none
+ */
+function getElo(game: PGNManager, name: "WhiteElo" | "BlackElo") {
+  const elo = parseInt(game.getHeader(name) || "", 10);
+  return Number.isNaN(elo) ? null : elo;
+}
+
+/**
+ * Checks whether a tag value contains a text, ignoring case
+ * @param value - The tag value
+ * @param text - The text to look for
+ */
+function containsText(value: string | undefined, text: string): boolean {
+  return (value || "").toLowerCase().includes(text.toLowerCase());
+}
+
+/**
+ * Checks whether an ECO code matches a code, a beginning or a range
+ * @param code - The ECO tag of a game
+ * @param eco - The code, beginning or range of the filter
+ */
+function matchesEco(code: string | undefined, eco: string): boolean {
+  if (!code) return false;
+  const [from, to] = eco.toUpperCase().split("-");
+  if (to === undefined) {
+    return code.toUpperCase().startsWith(from);
+  }
+  return code.toUpperCase() >= from && code.toUpperCase() <= to;
+}
+
+/**
+ * Selects the games of a collection matching header criteria
+ * @param games - The games, such as a PGNDatabase or an array of games
+ * @param filter - The criteria, all of which have to match
+ * @returns The matching games, in collection order
+ * @throws Error if a date of the filter is invalid
+ */
+export function filterGames(
+  games: Iterable<PGNManager>,
+  filter: GameFilter
+): Array<PGNManager> {
+  const from = filter.dateFrom
+    ? getDateRange(parseFilterDate(filter.dateFrom))[0]
+    : -Infinity;
+  const to = filter.dateTo
+    ? getDateRange(parseFilterDate(filter.dateTo))[1]
+    : Infinity;
+  let results: Array<Result> | null = null;
+  if (filter.result !== undefined) {
+    results = Array.isArray(filter.result) ? filter.result : [filter.result];
+  }
+
+  return [...games].filter((game) => {
+    const white = game.getHeader("White");
+    const black = game.getHeader("Black");
+    if (
+      filter.player !== undefined &&
+      !containsText(white, filter.player) &&
+      !containsText(black, filter.player)
+    ) {
+      return false;
+    }
+    if (filter.white !== undefined && !containsText(white, filter.white)) {
+      return false;
+    }
+    if (filter.black !== undefined && !containsText(black, filter.black)) {
+      return false;
+    }
+    if (
+      filter.event !== undefined &&
+      !containsText(game.getHeader("Event"), filter.event)
+    ) {
+      return false;
+    }
+    if (
+      filter.site !== undefined &&
+      !containsText(game.getHeader("Site"), filter.site)
+    ) {
+      return false;
+    }
+    if (results && !results.includes(game.parsedPGN.result)) {
+      return false;
+    }
+
+    if (filter.dateFrom || filter.dateTo) {
+      const date = parsePGNDate(game.getHeader("Date"));
+      if (!date || date.year === null) return false;
+      const [earliest, latest] = getDateRange(date);
+      if (latest < from || earliest > to) return false;
+    }
+
+    if (filter.minElo !== undefined || filter.maxElo !== undefined) {
+      const ratings = [getElo(game, "WhiteElo"), getElo(game, "BlackElo")];
+      const inRange = (elo: number | null) =>
+        elo !== null &&
+        elo >= (filter.minElo ?? -Infinity) &&
+        elo <= (filter.maxElo ?? Infinity);
+      if (!ratings.every(inRange)) return false;
+    }
+
+    if (filter.eco && !matchesEco(game.getHeader("ECO"), filter.eco)) {
+      return false;
+    }
+    return !filter.where || filter.where(game);
+  });
+}
+
+/**
+ * Gets the value a game is sorted by
+ * @param game - The game
+ * @param key - The sort key
+ * @returns A number or a string, null if the game does not have it
+ */
+function getSortValue(
+  game: PGNManager,
+  key: GameSortKey
+): number | string | Array<number> | null {
+  switch (key) {
+    case "date": {
+      const date = parsePGNDate(game.getHeader("Date"));
+      return date && date.year !== null ? getDateRange(date)[0] : null;
+    }
+    case "round": {
+      // rounds such as "3.2" sort by round, then board
+      const round = game.getHeader("Round") || "";
+      return /^\d+(\.\d+)*$/.test(round)
+        ? round.split(".").map((part) => parseInt(part, 10))
+        : null;
+    }
+    case "whiteElo":
+      return getElo(game, "WhiteElo");
+    case "blackElo":
+      return getElo(game, "BlackElo");
+    case "result":
+      return game.parsedPGN.result;
+    default: {
+      const name = key.charAt(0).toUpperCase() + key.slice(1);
+      const value = game.getHeader(name);
+      return value && value !== "?" ? value : null;
+    }
+  }
+}
+
+/**
+ * Compares two sort values of the same key
+ * @param a - The value of the first game
+ * @param b - The value of the second game
+ * @returns A negative number, zero or a positive number
+ */
+function compareValues(
+  a: number | string | Array<number>,
+  b: number | string | Array<number>
+): number {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const difference = (a[i] ?? -1) - (b[i] ?? -1);
+      if (difference) return difference;
+    }
+    return 0;
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Sorts the games of a collection by their headers. Games without a value
+ * for a key come last, whatever the order.
+ * @param games - The games, such as a PGNDatabase or an array of games
+ * @param by - The key to sort by, or several keys in order of priority
+ * @param order - "asc" (the default) or "desc"
+ * @returns The sorted games; games with equal values keep their order
+ */
+export function sortGames(
+  games: Iterable<PGNManager>,
+  by: GameSortKey | Array<GameSortKey>,
+  order: "asc" | "desc" = "asc"
+): Array<PGNManager> {
+  const keys: Array<GameSortKey> = Array.isArray(by) ? by : [by];
+  const direction = order === "desc" ? -1 : 1;
+
+  return [...games].sort((a, b) => {
+    for (const key of keys) {
+      const valueA = getSortValue(a, key);
+      const valueB = getSortValue(b, key);
+      if (valueA === null || valueB === null) {
+        if (valueA !== valueB) return valueA === null ? 1 : -1;
+        continue;
+      }
+      const comparison = compareValues(valueA, valueB);
+      if (comparison) return comparison * direction;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Computes a performance rating: the rating for which the expected score
+ * against the opponents equals the score made, with a perfect or a zero
+ * score counted as 800 points above or below the average opponent
+ * @param averageElo - The average rating of the opponents
+ * @param fraction - The score divided by the number of games
+ * @returns The performance rating, rounded
+ */
+export function getPerformanceRating(
+  averageElo: number,
+  fraction: number
+): number {
+  if (fraction >= 1) return Math.round(averageElo + 800);
+  if (fraction <= 0) return Math.round(averageElo - 800);
+  const difference = -400 * Math.log10(1 / fraction - 1);
+  return Math.round(averageElo + Math.max(-800, Math.min(800, difference)));
+}
+
+/**
+ * Computes the results of a player. Unfinished games ("*") are not counted.
+ * @param games - The games, such as a PGNDatabase or an array of games
+ * @param player - The name of the player, as written in the tags, ignoring case
+ * @returns The score, wins, draws and losses by color, and the performance
+ */
+export function getPlayerStats(
+  games: Iterable<PGNManager>,
+  player: string
+): PlayerStats {
+  const record = (): ColorRecord => ({
+    games: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    score: 0,
+  });
+  const colors = { w: record(), b: record() };
+  const opponents: Array<number> = [];
+  let ratedScore = 0;
+  let name = player;
+
+  for (const game of games) {
+    const result = game.parsedPGN.result;
+    if (result === "*") continue;
+
+    const white = game.getHeader("White") || "";
+    const black = game.getHeader("Black") || "";
+    const color =
+      white.toLowerCase() === player.toLowerCase()
+        ? "w"
+        : black.toLowerCase() === player.toLowerCase()
+        ? "b"
+        : null;
+    if (!color) continue;
+    name = color === "w" ? white : black;
+
+    const won = result === (color === "w" ? "1-0" : "0-1");
+    const score = result === "1/2-1/2" ? 0.5 : won ? 1 : 0;
+    const colorRecord = colors[color];
+    colorRecord.games++;
+    colorRecord.score += score;
+    if (score === 1) colorRecord.wins++;
+    else if (score === 0.5) colorRecord.draws++;
+    else colorRecord.losses++;
+
+    const opponentElo = getElo(game, color === "w" ? "BlackElo" : "WhiteElo");
+    if (opponentElo !== null) {
+      opponents.push(opponentElo);
+      ratedScore += score;
+    }
+  }
+
+  const total = record();
+  for (const key of Object.keys(total) as Array<keyof ColorRecord>) {
+    total[key] = colors.w[key] + colors.b[key];
+  }
+
+  const average =
+    opponents.reduce((sum, elo) => sum + elo, 0) / opponents.length;
+  return {
+    player: name,
+    ...total,
+    white: colors.w,
+    black: colors.b,
+    averageOpponentElo: opponents.length ? Math.round(average) : null,
+    performance: opponents.length
+      ? getPerformanceRating(average, ratedScore / opponents.length)
+      : null,
+  };
+}
+
+/**
+ * Computes the results of every player of a collection
+ * @param games - The games, such as a PGNDatabase or an array of games
+ * @returns The stats of every player, by score and then by name
+ */
+export function getStandings(games: Iterable<PGNManager>): Array<PlayerStats> {
+  const list = [...games];
+  const players: Map<string, string> = new Map();
+  for (const game of list) {
+    for (const name of [game.getHeader("White"), game.getHeader("Black")]) {
+      if (name && name !== "?" && !players.has(name.toLowerCase())) {
+        players.set(name.toLowerCase(), name);
+      }
+    }
+  }
+
+  return [...players.values()]
+    .map((player) => getPlayerStats(list, player))
+    .sort((a, b) => b.score - a.score || a.player.localeCompare(b.player));
+}
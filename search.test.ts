@@ -0,0 +1,57 @@
+import PGNManager, { searchGames } from "./index";
+
+describe("Position search", () => {
+  const games = [
+    new PGNManager(
+      "1. e4 e5 2. Nf3 Nc6 3. Bc4 Nd4 4. Nxe5 Qg5 5. Nxf7 Qxg2 *"
+    ),
+    new PGNManager("1. d4 d5 2. c4 e6 3. Nc3 Nf6 *"),
+    new PGNManager("1. c4 e6 2. d4 d5 3. Nc3 Nf6 (3... c6) *"),
+  ];
+
+  it("should find a move played by one side", () => {
+    const matches = searchGames(games, { san: "Nxf7", color: "w" });
+    expect(matches).toHaveLength(1);
+    expect(matches[0].gameIndex).toBe(0);
+    expect(matches[0].game).toBe(games[0]);
+    expect(matches[0].move).toBe(games[0].getMove(9));
+    expect(searchGames(games, { san: "Nxf7", color: "b" })).toEqual([]);
+  });
+
+  it("should match moves by regular expression", () => {
+    const matches = searchGames(games, { san: /^Q/ });
+    expect(matches.map((match) => match.move.move)).toEqual(["Qg5", "Qxg2"]);
+  });
+
+  it("should find positions reached by transposition", () => {
+    const fen = games[1].getMoveFen(6);
+    const matches = searchGames(games, { fen });
+    expect(matches.map((match) => match.gameIndex)).toEqual([1, 2]);
+    expect(games[2].getMoveFen(matches[1].move)).toBe(fen);
+  });
+
+  it("should match pieces on squares", () => {
+    const matches = searchGames(games, { pieces: { f7: "N", e5: null } });
+    expect(matches.map((match) => match.move.move)).toEqual(["Nxf7", "Qxg2"]);
+    expect(() => searchGames(games, { pieces: { z9: "P" } })).toThrow(
+      "Invalid square: z9"
+    );
+  });
+
+  it("should match material signatures in any order", () => {
+    const matches = searchGames(games, {
+      material: "PPPPPPPNNBBRRQKvKQRRBBNNPPPPPP",
+    });
+    expect(matches.map((match) => match.move.move)).toEqual(["Qxg2"]);
+    expect(() => searchGames(games, { material: "KQX" })).toThrow(
+      "Invalid material signature: KQX"
+    );
+  });
+
+  it("should search variations on request", () => {
+    expect(searchGames(games, { san: "c6" })).toEqual([]);
+    const matches = searchGames(games, { san: "c6", variations: true });
+    expect(matches).toHaveLength(1);
+    expect(matches[0].gameIndex).toBe(2);
+  });
+});
@@ -0,0 +1,136 @@
+import type { Move } from "pgn-parser";
+
+import PGNManager, { normalizeFen } from "./index";
+import { getMaterialSignature, normalizeMaterialSignature } from "./material";
+
+/**
+ * What to look for in the games. Every criterion given has to hold for the
+ * same move; the position criteria apply to the position after the move.
+ */
+export type PositionQuery = {
+  /** The exact position; the move counters are ignored */
+  fen?: string;
+  /** The material signature, such as "KRPvKR", with the pieces in any order */
+  material?: string;
+  /**
+   * Pieces on squares, in FEN letters (uppercase for white), such as
+   * `{ e4: "P", f7: "n" }`; null requires the square to be empty
+   */
+  pieces?: Record<string, string | null>;
+  /**
+   * The move: a SAN, compared without check and mate signs, or a regular
+   * expression tested against the SAN
+   */
+  san?: string | RegExp;
+  /** The color of the player who made the move */
+  color?: "w" | "b";
+  /** Also searches the variations (default is the main line only) */
+  variations?: boolean;
+};
+
+/** A move matching a query */
+export type SearchMatch = {
+  /** The 0-based index of the game in the collection */
+  gameIndex: number;
+  game: PGNManager;
+  move: Move;
+};
+
+/**
+ * Reads the piece placement of a FEN
+ * @param fen - The FEN of the position
+ * @returns The piece on each occupied square, such as { e1: "K" }
+ */
+function readBoard(fen: string): Record<string, string> {
+  const board: Record<string, string> = {};
+  fen
+    .split(" ")[0]
+    .split("/")
+    .forEach((rank, i) => {
+      let file = 0;
+      for (const c of rank) {
+        if (/\d/.test(c)) {
+          file += parseInt(c, 10);
+        } else {
+          board["abcdefgh"[file] + (8 - i)] = c;
+          file++;
+        }
+      }
+    });
+  return board;
+}
+
+/**
+ * Removes the check and mate signs of a SAN
+ * @param san - The SAN
+ * @returns The SAN without them
+ */
+function stripCheck(san: string): string {
+  return san.replace(/[+#]+$/, "");
+}
+
+/**
+ * Finds the moves of a collection of games matching a query
+ * @param games - The games, such as a PGNDatabase or an array of games
+ * @param query - The criteria the moves have to match
+ * @returns The matching moves, in game order and then in move order
+ * @throws Error if the material signature or a square of the query is invalid
+ */
+export function searchGames(
+  games: Iterable<PGNManager>,
+  query: PositionQuery
+): Array<SearchMatch> {
+  const position = query.fen ? normalizeFen(query.fen) : null;
+  const material = query.material
+    ? normalizeMaterialSignature(query.material)
+    : null;
+  const pieces = Object.entries(query.pieces || {});
+  for (const [square] of pieces) {
+    if (!/^[a-h][1-8]$/.test(square)) {
+      throw Error("Invalid square: " + square);
+    }
+  }
+
+  const matchesMove = (game: PGNManager, move: Move) => {
+    if (query.color && game.getMoveColor(move) !== query.color) return false;
+    if (typeof query.san === "string") {
+      if (stripCheck(move.move) !== stripCheck(query.san)) return false;
+    } else if (query.san && !query.san.test(move.move)) {
+      return false;
+    }
+
+    const fen = game.getMoveFen(move);
+    if (position && normalizeFen(fen) !== position) return false;
+    if (material && getMaterialSignature(fen) !== material) return false;
+    if (pieces.length) {
+      const board = readBoard(fen);
+      return pieces.every(
+        ([square, piece]) => (board[square] || null) === piece
+      );
+    }
+    return true;
+  };
+
+  const matches: Array<SearchMatch> = [];
+  let gameIndex = 0;
+  for (const game of games) {
+    // the FEN of an illegal move is the position before it
+    const illegal = new Set(game.errors.map((error) => error.move));
+    const moves: Array<Move> = [];
+    if (query.variations) {
+      for (let i = 1; game.getMove(i); i++) {
+        moves.push(game.getMove(i));
+      }
+    } else {
+      moves.push(...game.getLine());
+    }
+
+    for (const move of moves) {
+      if (!illegal.has(move) && matchesMove(game, move)) {
+        matches.push({ gameIndex, game, move });
+      }
+    }
+    gameIndex++;
+  }
+  return matches;
+}
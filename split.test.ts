@@ -0,0 +1,32 @@
+import GameSplitter, { splitGameText } from "./split";
+
+describe("Game splitting", () => {
+  it("should end a game with its result token", () => {
+    expect(splitGameText("1. e4 e5 1-0\n\n1. d4 d5 1/2-1/2\n1. c4 *")).toEqual([
+      "1. e4 e5 1-0",
+      "1. d4 d5 1/2-1/2",
+      "1. c4 *",
+    ]);
+  });
+
+  it("should end a game without a result at the next tag pair", () => {
+    expect(
+      splitGameText('[Event "A"]\n\n1. e4 e5\n\n[Event "B"]\n\n1. d4 *')
+    ).toEqual(['[Event "A"]\n\n1. e4 e5', '[Event "B"]\n\n1. d4 *']);
+  });
+
+  it("should skip results and brackets in comments and tag values", () => {
+    const game =
+      '[Event "1-0 \\" [x]"]\n\n1. e4 {1-0 [%clk 0:01:00]} (1. d4 *) e5 ' +
+      "; 0-1\n2. Nf3 *";
+    expect(splitGameText(game + "\n1. c4 *")).toEqual([game, "1. c4 *"]);
+  });
+
+  it("should split text arriving in chunks", () => {
+    const splitter = new GameSplitter();
+    expect(splitter.push("1. e4 e5 1-")).toEqual([]);
+    expect(splitter.push("0 1. d4")).toEqual(["1. e4 e5 1-0"]);
+    expect(splitter.end()).toEqual(["1. d4"]);
+    expect(splitter.end()).toEqual([]);
+  });
+});
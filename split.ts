@@ -0,0 +1,92 @@
+import PGNLexer from "./lexer";
+
+/** Tokens that terminate a game's movetext */
+const RESULTS = ["1-0", "0-1", "1/2-1/2", "*"];
+
+/**
+ * Finds the games in PGN text arriving in chunks: a game ends with its
+ * result token, or with the tag pair of the next game if it has none
+ */
+class GameSplitter {
+  /** Lexer state, carried over from one chunk to the next */
+  private lexer = new PGNLexer();
+
+  /** Nesting level of variations */
+  private depth = 0;
+
+  /** Characters of a possible result token */
+  private token = "";
+
+  /** Whether the current game has movetext */
+  private hasMoves = false;
+
+  /** Text of the current game read from earlier chunks */
+  private game = "";
+
+  /**
+   * Reads a chunk of text
+   * @param text - The chunk
+   * @returns The text of the games the chunk completes
+   */
+  public push = (text: string): Array<string> => {
+    const games: Array<string> = [];
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (this.lexer.read(c) !== "text") continue;
+
+      // a result token is complete once something other than its characters follows
+      let end = -1;
+      if (this.depth === 0 && this.token && !/[-/0-9]/.test(c)) {
+        if (RESULTS.includes(this.token)) end = i;
+        this.token = "";
+      }
+
+      // a tag pair after movetext starts a new game, even without a result
+      if (end === -1 && c === "[" && this.depth === 0 && this.hasMoves) {
+        end = i;
+      }
+
+      if (end !== -1) {
+        const gameText = (this.game + text.slice(start, end)).trim();
+        if (gameText) games.push(gameText);
+        this.game = "";
+        start = end;
+        this.hasMoves = false;
+      }
+
+      if (c === "(") this.depth++;
+      else if (c === ")") this.depth = Math.max(this.depth - 1, 0);
+      else if (!/[\s{;[]/.test(c)) {
+        this.hasMoves = true;
+        if (this.depth === 0) this.token += c;
+      }
+    }
+
+    this.game += text.slice(start);
+    return games;
+  };
+
+  /**
+   * Ends the text
+   * @returns The text of the last game, if there is one
+   */
+  public end = (): Array<string> => {
+    const gameText = this.game.trim();
+    this.game = "";
+    return gameText ? [gameText] : [];
+  };
+}
+
+/**
+ * Splits PGN text into the text of its individual games
+ * @param pgn - The PGN text
+ * @returns The text of every game, in order
+ */
+export function splitGameText(pgn: string): Array<string> {
+  const splitter = new GameSplitter();
+  return [...splitter.push(pgn), ...splitter.end()];
+}
+
+export default GameSplitter;
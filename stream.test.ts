@@ -0,0 +1,195 @@
+import { Readable } from "stream";
+import { setFlagsFromString } from "v8";
+import { runInNewContext } from "vm";
+import PGNManager from "./index";
+import { splitGames, readGames, readHeaders, readHeaderRecord } from "./stream";
+
+/** Builds the PGN text of a generated game */
+function generatedGame(index: number): string {
+  return `[Event "Generated"]
+[Site "Test Site"]
+[Round "${index + 1}"]
+[White "Player${index}"]
+[Black "Player${index + 1}"]
+[Result "1-0"]
+
+1. e4 {Best by test} e5 2. Nf3 (2. f4 exf4 3. Nf3 *) 2... Nc6 3. Bb5 a6 1-0
+
+`;
+}
+
+/** Lazily yields fixed-size chunks of a generated PGN file */
+function* generatedFile(games: number, chunkSize: number): Generator<string> {
+  let buffer = "";
+  for (let i = 0; i < games; i++) {
+    buffer += generatedGame(i);
+    while (buffer.length >= chunkSize) {
+      yield buffer.slice(0, chunkSize);
+      buffer = buffer.slice(chunkSize);
+    }
+  }
+  if (buffer) yield buffer;
+}
+
+/** Forces a full garbage collection, so heap samples only count live objects */
+function collectGarbage(): void {
+  setFlagsFromString("--expose-gc");
+  runInNewContext("gc")();
+}
+
+/** Runs a test only with PGN_BENCHMARK set, as by `npm run test:benchmark` */
+const benchmark = process.env.PGN_BENCHMARK ? it : it.skip;
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<Array<T>> {
+  const items: Array<T> = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("Streaming reader", () => {
+  const twoGames = `[Event "First"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 (2. f4 exf4 1-0) 2... Nc6 1-0
+
+[Event "Second"]
+[Result "*"]
+
+1. d4 {A comment with a * and 1-0 in it} d5 *`;
+
+  describe("splitGames", () => {
+    it("should split games on result tokens", async () => {
+      const games = await collect(splitGames([twoGames]));
+      expect(games).toHaveLength(2);
+      expect(games[0]).toContain('[Event "First"]');
+      expect(games[0].endsWith("2... Nc6 1-0")).toBe(true);
+      expect(games[1]).toContain('[Event "Second"]');
+    });
+
+    it("should ignore results in comments and variations", async () => {
+      const games = await collect(splitGames([twoGames]));
+      expect(games[0]).toContain("(2. f4 exf4 1-0)");
+      expect(games[1]).toContain("{A comment with a * and 1-0 in it}");
+    });
+
+    it("should split games without a result on the next header", async () => {
+      const games = await collect(
+        splitGames(['[Event "A"]\n\n1. e4 e5\n\n[Event "B"]\n\n1. d4 *'])
+      );
+      expect(games).toEqual(['[Event "A"]\n\n1. e4 e5', '[Event "B"]\n\n1. d4 *']);
+    });
+
+    it("should skip escaped quotes in tag values", async () => {
+      const first = '[Event "5\\" board"]\n\n1. e4 e5';
+      const games = await collect(
+        splitGames([first + '\n\n[Event "B"]\n\n1. d4 *'])
+      );
+      expect(games).toEqual([first, '[Event "B"]\n\n1. d4 *']);
+    });
+
+    it("should handle game boundaries split across chunks", async () => {
+      const chunks = twoGames.match(/[\s\S]{1,3}/g) as Array<string>;
+      const games = await collect(splitGames(chunks));
+      expect(games).toEqual(await collect(splitGames([twoGames])));
+    });
+
+    it("should decode byte chunks from a Readable", async () => {
+      const bytes = Buffer.from(twoGames.replace("First", "Première"));
+      const chunks = [bytes.subarray(0, 20), bytes.subarray(20)];
+      const games = await collect(splitGames(Readable.from(chunks)));
+      expect(games[0]).toContain('[Event "Première"]');
+    });
+  });
+
+  describe("readGames", () => {
+    it("should yield PGNManager instances", async () => {
+      const games = await collect(readGames(Readable.from([twoGames])));
+      expect(games).toHaveLength(2);
+      expect(games[0]).toBeInstanceOf(PGNManager);
+      expect(games[0].getLastMove().move).toBe("Nc6");
+      expect(games[1].getFirstMove().move).toBe("d4");
+    });
+
+    it("should read games lazily", async () => {
+      let chunksRead = 0;
+      function* source() {
+        for (const chunk of generatedFile(1000, 1024)) {
+          chunksRead++;
+          yield chunk;
+        }
+      }
+
+      for await (const game of readGames(source())) {
+        expect(game.getFirstMove().move).toBe("e4");
+        break;
+      }
+      expect(chunksRead).toBe(1);
+    });
+  });
+
+  describe("readHeaders", () => {
+    it("should yield header-only records", async () => {
+      const records = await collect(readHeaders([twoGames]));
+      expect(records).toEqual([
+        {
+          headers: [
+            { name: "Event", value: "First" },
+            { name: "Result", value: "1-0" },
+          ],
+          result: "1-0",
+        },
+        {
+          headers: [
+            { name: "Event", value: "Second" },
+            { name: "Result", value: "*" },
+          ],
+          result: "*",
+        },
+      ]);
+    });
+
+    it("should read headers after comments above the header", () => {
+      const record = readHeaderRecord('{Annotated} [Event "A"]\n\n1. e4');
+      expect(record).toEqual({
+        headers: [{ name: "Event", value: "A" }],
+        result: null,
+      });
+    });
+
+    it("should read every game of a generated file", async () => {
+      let count = 0;
+      for await (const record of readHeaders(generatedFile(1000, 1024))) {
+        expect(record.result).toBe("1-0");
+        count++;
+      }
+      expect(count).toBe(1000);
+    });
+
+    benchmark(
+      "should use constant memory across a large generated file",
+      async () => {
+        const games = 200000;
+        const samples: Array<number> = [];
+        let count = 0;
+
+        const file = generatedFile(games, 64 * 1024);
+        for await (const record of readHeaders(file)) {
+          expect(record.result).toBe("1-0");
+          count++;
+          if (count % 20000 === 0) {
+            collectGarbage();
+            samples.push(process.memoryUsage().heapUsed);
+          }
+        }
+
+        // the file is over 40MB, holding on to it would show as steady growth
+        expect(count).toBe(games);
+        const growth = samples[samples.length - 1] - samples[0];
+        expect(growth).toBeLessThan(8 * 1024 * 1024);
+      },
+      60000
+    );
+  });
+});
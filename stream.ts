@@ -0,0 +1,90 @@
+import type { Header, Result } from "pgn-parser";
+
+import PGNManager from "./index";
+import { unescapeHeaderValue } from "./headers";
+import GameSplitter from "./split";
+
+/** Chunk types accepted by the streaming readers */
+export type PGNChunk = string | Uint8Array;
+
+/** Headers and result of a game, read without parsing its moves */
+export type PGNHeaderRecord = {
+  headers: Array<Header>;
+  result: Result | null;
+};
+
+/** Matches one tag pair, optionally preceded by comments, at the cursor */
+const TAG_PAIR =
+  /\s*(?:\{[^}]*\}\s*)*\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]/y;
+
+/** Matches the result token at the end of a game */
+const TRAILING_RESULT = /(1-0|0-1|1\/2-1\/2|\*)\s*$/;
+
+/**
+ * Splits a stream of PGN text into the text of its individual games.
+ * Only the game being read is held in memory, so the size of the input
+ * is not bounded by the available heap.
+ * @param source - A Node Readable or any (async) iterable of text chunks
+ */
+export async function* splitGames(
+  source: AsyncIterable<PGNChunk> | Iterable<PGNChunk>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const splitter = new GameSplitter();
+
+  for await (const chunk of source) {
+    yield* splitter.push(
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true })
+    );
+  }
+
+  yield* splitter.push(decoder.decode());
+  yield* splitter.end();
+}
+
+/**
+ * Reads the headers and result of a game without parsing its moves
+ * @param text - The PGN text of a single game
+ * @returns The header-only record of the game
+ */
+export function readHeaderRecord(text: string): PGNHeaderRecord {
+  const headers: Array<Header> = [];
+  TAG_PAIR.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PAIR.exec(text))) {
+    headers.push({ name: match[1], value: unescapeHeaderValue(match[2]) });
+  }
+
+  const result = text.match(TRAILING_RESULT);
+  return { headers, result: result ? (result[1] as Result) : null };
+}
+
+/**
+ * Lazily reads every game of a PGN stream
+ * @param source - A Node Readable or any (async) iterable of text chunks
+ * @returns An async iterator of games, parsed one at a time
+ */
+export async function* readGames(
+  source: AsyncIterable<PGNChunk> | Iterable<PGNChunk>
+): AsyncGenerator<PGNManager> {
+  for await (const text of splitGames(source)) {
+    yield new PGNManager(text);
+  }
+}
+
+/**
+ * Lazily reads the headers of every game of a PGN stream, skipping the
+ * (comparatively expensive) parsing and validation of moves
+ * @param source - A Node Readable or any (async) iterable of text chunks
+ * @returns An async iterator of header-only records
+ */
+export async function* readHeaders(
+  source: AsyncIterable<PGNChunk> | Iterable<PGNChunk>
+): AsyncGenerator<PGNHeaderRecord> {
+  for await (const text of splitGames(source)) {
+    yield readHeaderRecord(text);
+  }
+}
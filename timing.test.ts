@@ -0,0 +1,106 @@
+import PGNManager, { TimeAnalysis, parseTimeControl } from "./index";
+
+describe("TimeAnalysis", () => {
+  describe("parseTimeControl", () => {
+    it("should parse increments and multi-period time controls", () => {
+      expect(parseTimeControl("300+5")).toEqual([
+        { moves: null, seconds: 300, increment: 5 },
+      ]);
+      expect(parseTimeControl("40/7200:3600")).toEqual([
+        { moves: 40, seconds: 7200, increment: 0 },
+        { moves: null, seconds: 3600, increment: 0 },
+      ]);
+    });
+
+    it("should return null for unusable time controls", () => {
+      expect(parseTimeControl(undefined)).toBeNull();
+      expect(parseTimeControl("?")).toBeNull();
+      expect(parseTimeControl("-")).toBeNull();
+      expect(parseTimeControl("*60")).toBeNull();
+      expect(parseTimeControl("3600:40/7200")).toBeNull();
+      expect(parseTimeControl("0/300")).toBeNull();
+    });
+  });
+
+  it("should ignore a time control with a period of 0 moves", () => {
+    const manager = new PGNManager(`[TimeControl "0/300"]
+
+1. e4 {[%clk 0:04:59]} e5 *`);
+    const analysis = new TimeAnalysis(manager);
+    expect(analysis.timeControl).toBeNull();
+    expect(analysis.getMoveTimes().map((time) => time.spent)).toEqual([
+      null,
+      null,
+    ]);
+  });
+
+  const blitzPGN = `[TimeControl "60+2"]
+
+1. e4 {[%clk 0:01:01]} e5 {[%clk 0:01:00]} 2. Nf3 {[%clk 0:00:55]} Nc6 {[%clk 0:00:30]} (2... d6 {[%clk 0:00:50]}) *`;
+
+  it("should compute the time spent with increments", () => {
+    const analysis = new TimeAnalysis(new PGNManager(blitzPGN));
+    const times = analysis.getMoveTimes();
+    expect(times.map((time) => time.spent)).toEqual([1, 2, 8, 32]);
+    expect(times[3]).toMatchObject({
+      color: "b",
+      moveNumber: 2,
+      clock: 30,
+      phase: "opening",
+    });
+    expect(analysis.getTotalTime("w")).toBe(9);
+    expect(analysis.getPhaseTimes().b).toEqual({
+      opening: 34,
+      middlegame: 0,
+      endgame: 0,
+    });
+  });
+
+  it("should analyze a variation", () => {
+    const manager = new PGNManager(blitzPGN);
+    const analysis = new TimeAnalysis(manager, manager.getMove(5));
+    expect(analysis.getMoveTimes().map((time) => time.spent)).toEqual([
+      1, 2, 8, 12,
+    ]);
+  });
+
+  it("should add the time of the next period", () => {
+    const manager = new PGNManager(`[TimeControl "2/100:50"]
+
+1. e4 {[%clk 0:01:30]} e5 {[%emt 0:00:07]} 2. d4 {[%clk 0:02:10]} d5 3. c4 {[%clk 0:02:00]} *`);
+    const times = new TimeAnalysis(manager).getMoveTimes();
+    expect(times.map((time) => time.spent)).toEqual([10, 7, 10, null, 10]);
+  });
+
+  it("should detect time trouble", () => {
+    const analysis = new TimeAnalysis(new PGNManager(blitzPGN));
+    expect(analysis.getTimeTrouble()).toEqual([]);
+    expect(analysis.getTimeTrouble(31).map((time) => time.move.move)).toEqual([
+      "Nc6",
+    ]);
+  });
+
+  it("should build a clock timeline per player", () => {
+    const manager = new PGNManager(blitzPGN);
+    const timeline = new TimeAnalysis(manager).getTimeline("w");
+    expect(timeline).toEqual([
+      { move: null, moveNumber: 0, clock: 60 },
+      { move: manager.getMove(1), moveNumber: 1, clock: 61 },
+      { move: manager.getMove(3), moveNumber: 2, clock: 55 },
+    ]);
+  });
+
+  it("should use clock differences without a time control", () => {
+    const manager = new PGNManager(blitzPGN);
+    manager.removeHeader("TimeControl");
+    const analysis = new TimeAnalysis(manager);
+    expect(analysis.timeControl).toBeNull();
+    expect(analysis.getMoveTimes().map((time) => time.spent)).toEqual([
+      null,
+      null,
+      6,
+      30,
+    ]);
+    expect(analysis.getTimeline("b")[0].moveNumber).toBe(1);
+  });
+});
@@ -0,0 +1,249 @@
+import type { Move } from "pgn-parser";
+
+import PGNManager, { MoveRef } from "./index";
+import { GamePhase, getGamePhase } from "./material";
+
+/** One period of a time control, as in "40/7200" or "300+5" */
+export type TimeControlPeriod = {
+  /** Moves to play in the period, null for the rest of the game */
+  moves: number | null;
+  /** Time of the period in seconds */
+  seconds: number;
+  /** Seconds added after every move of the period */
+  increment: number;
+};
+
+/** Clock data of one move of the analyzed line */
+export type MoveTime = {
+  move: Move;
+  color: "w" | "b";
+  /** Full move number, as written in the PGN */
+  moveNumber: number;
+  /** Clock time left after the move in seconds, null if unknown */
+  clock: number | null;
+  /** Time spent on the move in seconds, null if unknown */
+  spent: number | null;
+  /** Phase of the position after the move */
+  phase: GamePhase;
+};
+
+/** A point of a player's clock timeline */
+export type ClockPoint = {
+  /** The move after which the clock was read, null for the start */
+  move: Move | null;
+  /** Full move number, 0 for the start */
+  moveNumber: number;
+  /** Clock time left in seconds */
+  clock: number;
+};
+
+/** Matches one period of a TimeControl tag */
+const PERIOD = /^(?:(\d+)\/)?(\d+)(?:\+(\d+))?$/;
+
+/**
+ * Parses the value of a TimeControl tag, such as "300+5" or "40/7200:3600"
+ * @param value - The tag value
+ * @returns The periods, or null for unknown ("?"), untimed ("-") and
+ * sandclock ("*60") games and invalid values, periods of 0 moves included
+ */
+export function parseTimeControl(
+  value: string | undefined
+): Array<TimeControlPeriod> | null {
+  if (!value) return null;
+
+  const periods: Array<TimeControlPeriod> = [];
+  for (const period of value.trim().split(":")) {
+    const match = period.trim().match(PERIOD);
+    // a period of 0 moves would never end
+    if (!match || /^0+$/.test(match[1] || "")) return null;
+    periods.push({
+      moves: match[1] ? parseInt(match[1], 10) : null,
+      seconds: parseInt(match[2], 10),
+      increment: match[3] ? parseInt(match[3], 10) : 0,
+    });
+  }
+
+  // only the last period can last for the rest of the game
+  const open = periods.findIndex((period) => period.moves === null);
+  if (open !== -1 && open !== periods.length - 1) return null;
+  return periods;
+}
+
+/**
+ * Rounds a time to milliseconds, dropping floating point noise
+ * @param seconds - The time in seconds
+ * @returns The rounded time
+ */
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+class TimeAnalysis {
+  /** The analyzed game */
+  private manager: PGNManager;
+
+  /** A move of the analyzed line, the main line if undefined */
+  private lineMove: MoveRef | undefined;
+
+  /**
+   * Creates a new TimeAnalysis instance, reading the game on every call
+   * @param manager - The game to analyze
+   * @param moveOrId - A move of the line to analyze, the main line if omitted
+   */
+  constructor(manager: PGNManager, moveOrId?: MoveRef) {
+    this.manager = manager;
+    this.lineMove = moveOrId;
+  }
+
+  /**
+   * Gets the time control of the game, from its TimeControl header
+   * @returns The periods, or null if the game has no usable time control
+   */
+  public get timeControl(): Array<TimeControlPeriod> | null {
+    return parseTimeControl(this.manager.getHeader("TimeControl"));
+  }
+
+  /**
+   * Gets the clock time and the time spent for every move of the line.
+   * The time spent is read from [%emt] if the move has it, and otherwise
+   * derived from the clock times and the time control, increments and
+   * the time added at the end of a period included.
+   * @returns The clock data of the moves, in order
+   */
+  public getMoveTimes = (): Array<MoveTime> => {
+    const periods = this.timeControl;
+    const start = periods ? periods[0].seconds : null;
+    const clocks = { w: start, b: start };
+    const played = { w: 0, b: 0 };
+
+    return this.manager.getLine(this.lineMove).map((move) => {
+      const color = this.manager.getMoveColor(move);
+      const fen = this.manager.getMoveFen(move);
+      const fullMove = parseInt(fen.split(" ")[5], 10);
+      played[color]++;
+
+      // time given after the move: the increment, and the next period
+      const bonus = periods ? this.getTimeAdded(periods, played[color]) : 0;
+      const before = clocks[color];
+      const clock = this.manager.getClock(move);
+
+      let spent = this.manager.getElapsedTime(move);
+      if (spent === null && clock !== null && before !== null) {
+        spent = Math.max(roundTime(before + bonus - clock), 0);
+      }
+
+      if (clock !== null) {
+        clocks[color] = clock;
+      } else {
+        clocks[color] =
+          before !== null && spent !== null
+            ? roundTime(before + bonus - spent)
+            : null;
+      }
+
+      return {
+        move,
+        color,
+        moveNumber: color === "b" ? fullMove - 1 : fullMove,
+        clock,
+        spent,
+        phase: getGamePhase(fen),
+      };
+    });
+  };
+
+  /**
+   * Gets the seconds added to a player's clock after one of their moves
+   * @param periods - The time control
+   * @param moveCount - How many moves the player has made, this one included
+   * @returns The increment of the move's period, plus the time of the next
+   * period if the move ends its period
+   */
+  private getTimeAdded = (
+    periods: Array<TimeControlPeriod>,
+    moveCount: number
+  ): number => {
+    // every period has at least one move, so the move falls in one of the
+    // first moveCount periods
+    let end = 0;
+    for (let i = 0; i < moveCount; i++) {
+      // a last period with a move count repeats
+      const period = periods[Math.min(i, periods.length - 1)];
+      if (period.moves === null) return period.increment;
+
+      end += period.moves;
+      if (moveCount < end) return period.increment;
+      if (moveCount === end) {
+        const next = periods[Math.min(i + 1, periods.length - 1)];
+        return period.increment + next.seconds;
+      }
+    }
+    return 0;
+  };
+
+  /**
+   * Gets the total time a player spent on the moves of the line
+   * @param color - "w" for white or "b" for black
+   * @returns The time in seconds, counting the moves with a known time
+   */
+  public getTotalTime = (color: "w" | "b"): number => {
+    return roundTime(
+      this.getMoveTimes()
+        .filter((time) => time.color === color)
+        .reduce((total, time) => total + (time.spent || 0), 0)
+    );
+  };
+
+  /**
+   * Gets the time each player spent in each phase of the game
+   * @returns Seconds per player and phase, counting the moves with a known time
+   */
+  public getPhaseTimes = (): Record<"w" | "b", Record<GamePhase, number>> => {
+    const empty = () => ({ opening: 0, middlegame: 0, endgame: 0 });
+    const times = { w: empty(), b: empty() };
+    for (const time of this.getMoveTimes()) {
+      const phases = times[time.color];
+      phases[time.phase] = roundTime(phases[time.phase] + (time.spent || 0));
+    }
+    return times;
+  };
+
+  /**
+   * Finds the moves played in time trouble
+   * @param threshold - Clock time in seconds below which a player is in time
+   * trouble; a tenth of the base time, at most 60, if omitted
+   * @returns The moves after which the player's clock was below the threshold
+   */
+  public getTimeTrouble = (threshold?: number): Array<MoveTime> => {
+    if (threshold === undefined) {
+      const periods = this.timeControl;
+      threshold = periods ? Math.min(periods[0].seconds / 10, 60) : 60;
+    }
+    return this.getMoveTimes().filter(
+      (time) => time.clock !== null && time.clock < threshold
+    );
+  };
+
+  /**
+   * Gets the clock timeline of a player, for charts
+   * @param color - "w" for white or "b" for black
+   * @returns The clock after each of the player's moves with a known clock
+   * time, preceded by the base time if the time control is known
+   */
+  public getTimeline = (color: "w" | "b"): Array<ClockPoint> => {
+    const periods = this.timeControl;
+    const points: Array<ClockPoint> = periods
+      ? [{ move: null, moveNumber: 0, clock: periods[0].seconds }]
+      : [];
+
+    for (const time of this.getMoveTimes()) {
+      if (time.color === color && time.clock !== null) {
+        const { move, moveNumber, clock } = time;
+        points.push({ move, moveNumber, clock });
+      }
+    }
+    return points;
+  };
+}
+
+export default TimeAnalysis;
@@ -0,0 +1,98 @@
+import PGNManager, { OpeningTree, FEN_START_POSITION } from "./index";
+
+describe("OpeningTree", () => {
+  const games = [
+    new PGNManager("1. d4 Nf6 2. c4 e6 3. Nc3 1-0"),
+    new PGNManager("1. c4 e6 2. d4 Nf6 3. Nc3 0-1"),
+    new PGNManager("1. d4 d5 1/2-1/2"),
+  ];
+
+  it("should count the moves and results of each position", () => {
+    const tree = new OpeningTree(games);
+    expect(tree.count).toBe(3);
+    expect(tree.getMoves(FEN_START_POSITION)).toMatchObject([
+      { san: "d4", games: 2, white: 1, draws: 1, black: 0 },
+      { san: "c4", games: 1, white: 0, draws: 0, black: 1 },
+    ]);
+    expect(tree.getMoves(games[0].getMoveFen(1))).toMatchObject([
+      { san: "Nf6", games: 1 },
+      { san: "d5", games: 1 },
+    ]);
+  });
+
+  it("should merge transpositions", () => {
+    const tree = new OpeningTree(games);
+    const moves = tree.getMoves(games[0].getMoveFen(4));
+    expect(moves).toEqual([
+      {
+        san: "Nc3",
+        fen: games[0].getMoveFen(5),
+        games: 2,
+        white: 1,
+        draws: 0,
+        black: 1,
+      },
+    ]);
+    expect(tree.getMoves(games[1].getMoveFen(4))).toEqual(moves);
+  });
+
+  it("should count a move once per game", () => {
+    const tree = new OpeningTree([
+      new PGNManager("1. Nf3 Nf6 2. Ng1 Ng8 3. Nf3 *"),
+    ]);
+    expect(tree.getMoves(FEN_START_POSITION)).toMatchObject([
+      { san: "Nf3", games: 1, white: 0, draws: 0, black: 0 },
+    ]);
+  });
+
+  it("should limit the plies and add variations on request", () => {
+    const game = new PGNManager("1. e4 (1. d4 d5) 1... e5 *");
+    const shallow = new OpeningTree([...games, game], { maxPly: 1 });
+    expect(shallow.getMoves(games[0].getMoveFen(1))).toEqual([]);
+
+    const mainLine = new OpeningTree([game]);
+    expect(mainLine.getMoves(FEN_START_POSITION)).toHaveLength(1);
+    const tree = new OpeningTree([game], { variations: true });
+    expect(
+      tree.getMoves(FEN_START_POSITION).map((move) => move.san)
+    ).toEqual(["e4", "d4"]);
+  });
+
+  it("should add games one by one", () => {
+    const tree = new OpeningTree();
+    games.forEach((game) => tree.addGame(game));
+    expect(tree.count).toBe(3);
+    expect(tree.getMoves(FEN_START_POSITION)[0].games).toBe(2);
+  });
+
+  describe("toPGN", () => {
+    it("should export the tree with the most played moves as main line", () => {
+      const pgn = new OpeningTree(games).toPGN();
+      expect(pgn).toContain('[Result "*"]');
+      expect(pgn.split("\n")).toContain(
+        "1. d4 {2 games, +1 =1 -0} " +
+          "(1. c4 {1 game, +0 =0 -1} e6 {1 game, +0 =0 -1} " +
+          "2. d4 {1 game, +0 =0 -1} Nf6 {1 game, +0 =0 -1}) " +
+          "Nf6 {1 game, +1 =0 -0} (1... d5 {1 game, +0 =1 -0}) " +
+          "2. c4 {1 game, +1 =0 -0} e6 {1 game, +1 =0 -0} " +
+          "3. Nc3 {2 games, +1 =0 -1}"
+      );
+
+      const tree = new PGNManager(pgn);
+      expect(tree.errors).toEqual([]);
+      expect(tree.toSAN()).toEqual(["d4", "Nf6", "c4", "e6", "Nc3"]);
+    });
+
+    it("should leave out rare moves", () => {
+      const pgn = new OpeningTree(games).toPGN({ minGames: 2 });
+      expect(pgn.split("\n")).toContain("1. d4 {2 games, +1 =1 -0}");
+    });
+
+    it("should start at a position", () => {
+      const fen = games[0].getMoveFen(4);
+      const pgn = new OpeningTree(games).toPGN({ fen });
+      expect(pgn).toContain(`[FEN "${fen}"]`);
+      expect(pgn.split("\n")).toContain("3. Nc3 {2 games, +1 =0 -1}");
+    });
+  });
+});
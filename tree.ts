@@ -0,0 +1,242 @@
+import type { Move, ParsedPGN } from "pgn-parser";
+
+import PGNManager, { FEN_START_POSITION, normalizeFen } from "./index";
+import { FormatOptions, regeneratePGN } from "./utils";
+
+/** A move played in a position of the tree, with the results of its games */
+export type TreeMove = {
+  san: string;
+  /** FEN of the position after the move */
+  fen: string;
+  /** Number of games in which the move was played */
+  games: number;
+  /** Games won by white, drawn and won by black; unfinished games aside */
+  white: number;
+  draws: number;
+  black: number;
+};
+
+/** How games are added to an opening tree */
+export type OpeningTreeOptions = {
+  /** Plies of every game to add, all of them if omitted */
+  maxPly?: number;
+  /** Also adds the variations of the games (default is the main line only) */
+  variations?: boolean;
+};
+
+/** How an opening tree is exported as PGN */
+export type OpeningTreeExportOptions = FormatOptions & {
+  /** The position to start at, the standard starting position if omitted */
+  fen?: string;
+  /** Leaves out the moves played in fewer games (default 1) */
+  minGames?: number;
+  /** Plies to export, all of them if omitted */
+  maxPly?: number;
+};
+
+class OpeningTree {
+  /** Moves played in each position, by normalized FEN and then by SAN */
+  private positions: Map<string, Map<string, TreeMove>> = new Map();
+
+  /** How games are added */
+  private options: OpeningTreeOptions;
+
+  /** Number of games added */
+  private gameCount = 0;
+
+  /**
+   * Creates a new OpeningTree instance
+   * @param games - The games to add, such as a PGNDatabase or an array of games
+   * @param options - How the games are added
+   */
+  constructor(
+    games: Iterable<PGNManager> = [],
+    options: OpeningTreeOptions = {}
+  ) {
+    this.options = options;
+    for (const game of games) {
+      this.addGame(game);
+    }
+  }
+
+  /**
+   * Gets the number of games added to the tree
+   * @returns The number of games
+   */
+  public get count(): number {
+    return this.gameCount;
+  }
+
+  /**
+   * Adds the moves of a game to the tree. A move counts once per game, even
+   * if the game reaches its position again; illegal moves end their line.
+   * @param game - The game to add
+   */
+  public addGame = (game: PGNManager): void => {
+    const result = game.parsedPGN.result;
+    const illegal = new Set(game.errors.map((error) => error.move));
+    const maxPly = this.options.maxPly ?? Infinity;
+    const added: Set<string> = new Set();
+
+    const addLine = (moves: Array<Move>, fen: string, ply: number) => {
+      for (const move of moves) {
+        if (ply >= maxPly) return;
+        const position = normalizeFen(fen);
+        const key = position + " " + move.move;
+        if (!illegal.has(move) && !added.has(key)) {
+          added.add(key);
+          this.addMove(position, move.move, game.getMoveFen(move), result);
+        }
+
+        // the variations of a move are played from the position before it
+        if (this.options.variations) {
+          (move.ravs || []).forEach((rav) => addLine(rav.moves, fen, ply));
+        }
+        if (illegal.has(move)) return;
+        fen = game.getMoveFen(move);
+        ply++;
+      }
+    };
+
+    addLine(game.parsedPGN.moves, game.startFen, 0);
+    this.gameCount++;
+  };
+
+  /**
+   * Counts a game in which a move was played
+   * @param position - The normalized FEN of the position before the move
+   * @param san - The move
+   * @param fen - The FEN of the position after the move
+   * @param result - The result of the game
+   */
+  private addMove = (
+    position: string,
+    san: string,
+    fen: string,
+    result: string
+  ) => {
+    if (!this.positions.has(position)) {
+      this.positions.set(position, new Map());
+    }
+    const moves = this.positions.get(position);
+    if (!moves.has(san)) {
+      moves.set(san, { san, fen, games: 0, white: 0, draws: 0, black: 0 });
+    }
+
+    const move = moves.get(san);
+    move.games++;
+    if (result === "1-0") move.white++;
+    else if (result === "0-1") move.black++;
+    else if (result === "1/2-1/2") move.draws++;
+  };
+
+  /**
+   * Gets the moves played in a position, whatever the move order that led
+   * to it
+   * @param fen - The FEN of the position; the move counters are ignored
+   * @returns The moves with their results, most played first
+   */
+  public getMoves = (fen: string): Array<TreeMove> => {
+    const moves = this.positions.get(normalizeFen(fen));
+    return [...(moves?.values() || [])]
+      .map((move) => ({ ...move }))
+      .sort((a, b) => b.games - a.games);
+  };
+
+  /**
+   * Exports the tree as a single game: the most played move as the main
+   * line, the others as variations, each move with a comment such as
+   * "12 games, +5 =4 -3" (white's wins, draws and losses). A position
+   * reached again by transposition is continued only once.
+   * @param options - The position to start at, which moves to keep, and how
+   * the game is formatted
+   * @returns The PGN string of the tree
+   */
+  public toPGN = (options: OpeningTreeExportOptions = {}): string => {
+    const startFen = options.fen || FEN_START_POSITION;
+    const minGames = options.minGames ?? 1;
+    const maxPly = options.maxPly ?? Infinity;
+    const moveColor: Map<Move, "w" | "b"> = new Map();
+    const expanded = new Set([normalizeFen(startFen)]);
+
+    const toMove = (treeMove: TreeMove, fen: string, first: boolean): Move => {
+      const [, color, , , , fullMove] = fen.split(" ");
+      const move: Move = {
+        move: treeMove.san,
+        comments: [
+          `${treeMove.games} game${treeMove.games === 1 ? "" : "s"}, ` +
+            `+${treeMove.white} =${treeMove.draws} -${treeMove.black}`,
+        ],
+      };
+      if (first || color === "w") {
+        move.move_number = parseInt(fullMove, 10) || 1;
+      }
+      moveColor.set(move, color === "b" ? "b" : "w");
+      return move;
+    };
+
+    // the FEN after a move, with the move number of the exported line
+    const nextFen = (treeMove: TreeMove, fen: string) => {
+      const [, color, , , , fullMove] = fen.split(" ");
+      const number = (parseInt(fullMove, 10) || 1) + (color === "b" ? 1 : 0);
+      return `${normalizeFen(treeMove.fen)} 0 ${number}`;
+    };
+
+    const buildLine = (
+      fen: string,
+      ply: number,
+      numbered: boolean
+    ): Array<Move> => {
+      // the main line first, so that it continues the positions it reaches
+      const steps: Array<{ fen: string; choices: Array<TreeMove> }> = [];
+      while (ply + steps.length < maxPly) {
+        const choices = this.getMoves(fen).filter(
+          (move) => move.games >= minGames
+        );
+        if (!choices.length) break;
+        steps.push({ fen, choices });
+
+        const position = normalizeFen(choices[0].fen);
+        if (expanded.has(position)) break;
+        expanded.add(position);
+        fen = nextFen(choices[0], fen);
+      }
+
+      return steps.map((step, i) => {
+        const move = toMove(step.choices[0], step.fen, numbered && i === 0);
+        const ravs = step.choices.slice(1).map((choice) => {
+          const first = toMove(choice, step.fen, true);
+          const position = normalizeFen(choice.fen);
+          if (expanded.has(position)) {
+            return { moves: [first], result: null };
+          }
+          expanded.add(position);
+          const fen = nextFen(choice, step.fen);
+          const line = buildLine(fen, ply + i + 1, false);
+          return { moves: [first, ...line], result: null };
+        });
+        if (ravs.length) {
+          move.ravs = ravs;
+        }
+        return move;
+      });
+    };
+
+    const game: ParsedPGN = {
+      comments_above_header: null,
+      headers:
+        startFen === FEN_START_POSITION
+          ? []
+          : [
+              { name: "SetUp", value: "1" },
+              { name: "FEN", value: startFen },
+            ],
+      comments: null,
+      moves: buildLine(startFen, 0, true),
+      result: "*",
+    };
+    return regeneratePGN(game, moveColor, options);
+  };
+}
+
+export default OpeningTree;
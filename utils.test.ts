@@ -1,4 +1,4 @@
-import { regeneratePGN } from "./utils";
+import { regeneratePGN, parsePGN, EXPORT_FORMAT } from "./utils";
 import type { ParsedPGN, Move, Rav, Header } from "pgn-parser";
 
 describe("regeneratePGN", () => {
@@ -325,4 +325,222 @@ describe("regeneratePGN", () => {
     expect(result).toContain("(2. d4)");
     expect(result).toContain("2. Nf3");
   });
+
+  it("should write the Seven Tag Roster first, with defaults", () => {
+    const parsedPGN: ParsedPGN = {
+      comments_above_header: null,
+      headers: [
+        { name: "Annotator", value: 'The "Expert"' },
+        { name: "White", value: "Player1" },
+      ],
+      comments: null,
+      moves: [],
+      result: "1/2-1/2",
+    };
+
+    const result = regeneratePGN(parsedPGN, new Map());
+
+    expect(result).toBe(`[Event "?"]
+[Site "?"]
+[Date "????.??.??"]
+[Round "?"]
+[White "Player1"]
+[Black "?"]
+[Result "1/2-1/2"]
+[Annotator "The \\"Expert\\""]
+
+1/2-1/2`);
+  });
+
+  it("should write NAGs after their move", () => {
+    const parsedPGN: ParsedPGN = {
+      headers: [],
+      moves: [
+        { move: "e4", move_number: 1, comments: [], nags: ["$1", "$14"] },
+        { move: "e5", move_number: undefined, comments: [], nags: ["$6"] },
+      ],
+      result: "*",
+      comments_above_header: null,
+      comments: null,
+    };
+    const moveColor: Map<Move, "w" | "b"> = new Map();
+    moveColor.set(parsedPGN.moves[0], "w");
+    moveColor.set(parsedPGN.moves[1], "b");
+
+    const result = regeneratePGN(parsedPGN, moveColor);
+
+    expect(result).toContain("1. e4! $14 e5?!");
+  });
+
+  it("should write parsed comment objects", () => {
+    const parsedPGN = parsePGN(
+      "1. e4 {Best by test} {[%clk 0:03:12]} e5 *"
+    )[0];
+    const moveColor: Map<Move, "w" | "b"> = new Map();
+    moveColor.set(parsedPGN.moves[0], "w");
+    moveColor.set(parsedPGN.moves[1], "b");
+
+    const result = regeneratePGN(parsedPGN, moveColor);
+
+    expect(result).toContain("1. e4 {Best by test} {[%clk 0:03:12]} e5");
+  });
+
+  it("should write comments at the start of variations", () => {
+    const variation: Rav = {
+      moves: [{ move: "f4", move_number: 2, comments: [] }],
+      result: null,
+      comments_before_moves: ["King's Gambit"],
+    };
+    const parsedPGN: ParsedPGN = {
+      headers: [],
+      moves: [
+        { move: "e4", move_number: 1, comments: [] },
+        { move: "e5", move_number: undefined, comments: [] },
+        { move: "Nf3", move_number: 2, comments: [], ravs: [variation] },
+      ],
+      result: "*",
+      comments_above_header: null,
+      comments: null,
+    };
+    const moveColor: Map<Move, "w" | "b"> = new Map();
+    moveColor.set(parsedPGN.moves[2], "w");
+    moveColor.set(variation.moves[0], "w");
+
+    const result = regeneratePGN(parsedPGN, moveColor);
+
+    expect(result).toContain("({King's Gambit} 2. f4)");
+  });
+});
+
+describe("regeneratePGN options", () => {
+  /** Parses a game and colors its moves by their move numbers */
+  function parseGame(pgn: string): {
+    game: ParsedPGN;
+    moveColor: Map<Move, "w" | "b">;
+  } {
+    const [game] = parsePGN(pgn);
+    const moveColor: Map<Move, "w" | "b"> = new Map();
+    const visit = (moves: Array<Move>, white: boolean) => {
+      moves.forEach((move, i) => {
+        const color = (i % 2 === 0) === white ? "w" : "b";
+        moveColor.set(move, color);
+        (move.ravs || []).forEach((rav) => visit(rav.moves, color === "w"));
+      });
+    };
+    visit(game.moves, true);
+    return { game, moveColor };
+  }
+
+  /** Gets the movetext of a regenerated game, without headers and result */
+  function movetext(pgn: string): string {
+    const lines = pgn.split("\n");
+    return lines.slice(lines.indexOf("") + 1, -1).join("\n");
+  }
+
+  const annotated = `[Event "Annotated"]
+[Annotator "Someone"]
+
+1. e4 {King's pawn} e5 2. Nf3 $1 (2. f4 exf4 (2... d5)) 2... Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 d6 8. c3 O-O 9. h3 Nb8 10. d4 Nbd7 *`;
+
+  it("should wrap movetext lines at the maximum length", () => {
+    const { game, moveColor } = parseGame(annotated);
+    const pgn = regeneratePGN(game, moveColor, { maxLineLength: 40 });
+    const text = movetext(pgn);
+    const lines = text.split("\n");
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(40));
+    expect(lines.join(" ")).toBe(movetext(regeneratePGN(game, moveColor)));
+  });
+
+  it("should number black moves after comments and variations", () => {
+    const { game, moveColor } = parseGame(annotated);
+    const text = movetext(regeneratePGN(game, moveColor, EXPORT_FORMAT));
+    expect(text.replace(/\n/g, " ")).toContain(
+      "1. e4 {King's pawn} 1... e5 2. Nf3! (2. f4 exf4 (2... d5)) 2... Nc6"
+    );
+  });
+
+  it("should strip comments, variations and NAGs", () => {
+    const { game, moveColor } = parseGame(annotated);
+    const text = movetext(
+      regeneratePGN(game, moveColor, {
+        comments: false,
+        variations: false,
+        nags: false,
+      })
+    );
+    expect(text).toContain("1. e4 e5 2. Nf3 2... Nc6 3. Bb5");
+  });
+
+  it("should write the reduced export format", () => {
+    const { game, moveColor } = parseGame(annotated);
+    const pgn = regeneratePGN(game, moveColor, {
+      ...EXPORT_FORMAT,
+      reduced: true,
+    });
+    expect(pgn).not.toContain("Annotator");
+    expect(pgn).not.toMatch(/[{($]/);
+    expect(movetext(pgn).replace(/\n/g, " ")).toContain(
+      "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6"
+    );
+  });
+
+  it("should indent variations", () => {
+    const { game, moveColor } = parseGame(
+      "1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 *"
+    );
+    const text = movetext(regeneratePGN(game, moveColor, { indent: "  " }));
+    expect(text.split("\n")).toEqual([
+      "1. e4 e5",
+      "  (1... c5 2. Nf3",
+      "    (2. c3 d5)",
+      "  2... d6)",
+      "2. Nf3",
+    ]);
+  });
+
+  it("should write comments holding closing braces as line comments", () => {
+    const { game, moveColor } = parseGame("1. e4 e5 *");
+    game.moves[0].comments = ["Threatens } nothing"];
+    const pgn = regeneratePGN(game, moveColor);
+    expect(pgn).toContain("1. e4 ;Threatens } nothing\ne5");
+    expect(parsePGN(pgn)[0].moves[0].comments).toEqual([
+      { text: "Threatens } nothing" },
+    ]);
+  });
+});
+
+describe("parsePGN", () => {
+  it("should parse every game of a PGN string", () => {
+    const games = parsePGN('[Event "A"]\n\n1. e4 *\n\n[Event "B"]\n\n1. d4 *');
+    expect(games).toHaveLength(2);
+    expect(games[1].moves[0].move).toBe("d4");
+  });
+
+  it("should parse comments at the start of variations", () => {
+    const [game] = parsePGN("1. e4 e5 ({Sicilian} 1... c5 2. Nf3) 2. Nf3 *");
+    const variation = game.moves[1].ravs![0];
+    expect(variation.comments_before_moves).toEqual(["Sicilian"]);
+    expect(variation.moves[0].move).toBe("c5");
+  });
+
+  it("should parse escaped tag values", () => {
+    const [game] = parsePGN('[Event "The \\"Immortal\\" game"]\n\n1. e4 *');
+    expect(game.headers).toEqual([
+      { name: "Event", value: 'The "Immortal" game' },
+    ]);
+  });
+
+  it("should separate commands from the text of comments", () => {
+    const [game] = parsePGN("1. e4 {Good [%clk 0:03:12] move} e5 *");
+    expect(game.moves[0].comments).toEqual([
+      { commands: [{ key: "clk", values: ["0:03:12"] }] },
+      { text: "Good move" },
+    ]);
+  });
+
+  it("should throw on invalid PGN", () => {
+    expect(() => parsePGN("1. e4 e5 2. Nf3")).toThrow();
+  });
 });
@@ -1,43 +1,114 @@
+import * as pgnParser from "pgn-parser";
 import type { ParsedPGN, Move } from "pgn-parser";
 
+import { formatMoveWithNags } from "./nags";
+import {
+  MoveComment,
+  formatComment,
+  extractVariationComments,
+  attachVariationComments,
+  separateCommentCommands,
+} from "./comments";
+import {
+  SEVEN_TAG_ROSTER,
+  formatHeaders,
+  protectHeaderValues,
+  restoreHeaderValues,
+} from "./headers";
+
+/**
+ * Parses a PGN string, including the comments at the start of variations
+ * and the escaped tag values that pgn-parser does not accept on its own
+ * @throws SyntaxError if the PGN cannot be parsed
+ */
+export function parsePGN(pgn: string): Array<ParsedPGN> {
+  const extracted = extractVariationComments(protectHeaderValues(pgn));
+  const games = pgnParser.parse(extracted.pgn);
+  attachVariationComments(games, extracted.comments);
+  separateCommentCommands(games);
+  restoreHeaderValues(games);
+  return games;
+}
+
+/** Options for formatting a game as PGN */
+export type FormatOptions = {
+  /** Maximum length of the movetext lines, 0 for no wrapping (the default) */
+  maxLineLength?: number;
+  /**
+   * Reduced export format: only the Seven Tag Roster, without comments,
+   * variations and NAGs
+   */
+  reduced?: boolean;
+  /** Whether comments are written (default true) */
+  comments?: boolean;
+  /** Whether variations are written (default true) */
+  variations?: boolean;
+  /** Whether NAGs, suffix annotations included, are written (default true) */
+  nags?: boolean;
+  /**
+   * "source" (the default) writes the move numbers the moves have, "export"
+   * also numbers black moves after a comment or a variation, as in "3... Nf6"
+   */
+  moveNumbers?: "source" | "export";
+  /** Writes every variation on its own line, indented by this string per level */
+  indent?: string;
+};
+
+/** Options of the PGN export format: 80-column lines and export move numbers */
+export const EXPORT_FORMAT: FormatOptions = {
+  maxLineLength: 80,
+  moveNumbers: "export",
+};
+
+/** A piece of movetext, laid out on lines by layoutMovetext */
+type Token = {
+  text: string;
+  /** A rest-of-line comment, which has to end its line */
+  lineComment?: boolean;
+  /** When indenting variations, the token starts a line at this level */
+  level?: number;
+};
+
 /**
  * Regenerates a PGN string from a ParsedPGN object
+ * @param parsedPGN - The game
+ * @param moveColor - The color of every move
+ * @param options - How the game is formatted
  */
 export function regeneratePGN(
   parsedPGN: ParsedPGN,
-  moveColor: Map<Move, "w" | "b">
+  moveColor: Map<Move, "w" | "b">,
+  options: FormatOptions = {}
 ): string {
+  const keepComments = options.comments !== false && !options.reduced;
   const lines: string[] = [];
 
   // Add comments above header
-  if (parsedPGN.comments_above_header) {
+  if (keepComments && parsedPGN.comments_above_header) {
     parsedPGN.comments_above_header.forEach((comment) => {
-      lines.push(`{${comment.text}}`);
+      lines.push(formatComment(comment));
     });
     lines.push("");
   }
 
-  // Add headers
-  if (parsedPGN.headers) {
-    parsedPGN.headers.forEach((header) => {
-      lines.push(`[${header.name} "${header.value}"]`);
-    });
-    lines.push("");
-  }
+  // Add headers, Seven Tag Roster first
+  const headers = formatHeaders(parsedPGN);
+  lines.push(
+    ...(options.reduced ? headers.slice(0, SEVEN_TAG_ROSTER.length) : headers)
+  );
+  lines.push("");
 
   // Add comments between headers and moves
-  if (parsedPGN.comments) {
+  if (keepComments && parsedPGN.comments) {
     parsedPGN.comments.forEach((comment) => {
-      lines.push(`{${comment.text}}`);
+      lines.push(formatComment(comment));
     });
     lines.push("");
   }
 
   // Add moves
-  const movesText = formatMoves(parsedPGN.moves, moveColor);
-  if (movesText) {
-    lines.push(movesText);
-  }
+  const tokens = formatMoves(parsedPGN.moves, moveColor, options, 0);
+  lines.push(...layoutMovetext(tokens, options));
 
   // Add result
   lines.push(parsedPGN.result);
@@ -48,35 +119,140 @@ export function regeneratePGN(
 /**
  * Formats moves array into PGN move notation
  */
-function formatMoves(moves: Move[], moveColor: Map<Move, "w" | "b">): string {
-  const parts: string[] = [];
+function formatMoves(
+  moves: Move[],
+  moveColor: Map<Move, "w" | "b">,
+  options: FormatOptions,
+  level: number
+): Array<Token> {
+  const keepComments = options.comments !== false && !options.reduced;
+  const keepVariations = options.variations !== false && !options.reduced;
+  const keepNags = options.nags !== false && !options.reduced;
+
+  const tokens: Array<Token> = [];
+  let moveNumber: number | undefined;
+  let interrupted = true;
+  let newLine = false;
 
   moves.forEach((move) => {
-    // Add move number for white moves
+    const isWhite = moveColor.get(move) !== "b";
     if (move.move_number !== undefined) {
-      parts.push(`${move.move_number}.`);
-      if (moveColor.get(move) === "b") {
-        parts[parts.length - 1] += "..";
-      }
+      moveNumber = move.move_number;
+    } else if (isWhite && moveNumber !== undefined) {
+      moveNumber++;
+    }
+
+    // Add move number for white moves, and for black moves where needed
+    const start = tokens.length;
+    const numbered =
+      options.moveNumbers === "export"
+        ? isWhite || interrupted
+        : move.move_number !== undefined;
+    if (numbered && moveNumber !== undefined) {
+      tokens.push({ text: `${moveNumber}${isWhite ? "." : "..."}` });
     }
 
-    // Add the move
-    parts.push(move.move);
+    // Add the move and its annotation glyphs
+    tokens.push({ text: keepNags ? formatMoveWithNags(move) : move.move });
+    if (newLine) {
+      tokens[start].level = level;
+      newLine = false;
+    }
+    interrupted = false;
 
     // Add comments after the move
-    move.comments.forEach((comment) => {
-      parts.push(`{${comment}}`);
-    });
+    if (keepComments) {
+      move.comments.forEach((comment) => {
+        tokens.push(formatCommentToken(comment));
+        interrupted = true;
+      });
+    }
 
     // Add variations (RAVs)
-    if (move.ravs) {
+    if (keepVariations && move.ravs) {
       move.ravs.forEach((rav) => {
-        const ravMoves = formatMoves(rav.moves, moveColor);
-        const ravResult = rav.result ? ` ${rav.result}` : "";
-        parts.push(`(${ravMoves}${ravResult})`);
+        const ravTokens: Array<Token> = [];
+        if (keepComments) {
+          // pgn-parser only accepts brace comments at the start of a variation
+          (rav.comments_before_moves || []).forEach((comment) =>
+            ravTokens.push(formatCommentToken(comment.replace(/}/g, "")))
+          );
+        }
+        ravTokens.push(...formatMoves(rav.moves, moveColor, options, level + 1));
+        if (rav.result) {
+          ravTokens.push({ text: rav.result });
+        }
+        if (!ravTokens.length) return;
+
+        ravTokens[0] = { ...ravTokens[0], text: "(" + ravTokens[0].text };
+        ravTokens[0].level = level + 1;
+        const last = ravTokens[ravTokens.length - 1];
+        if (last.lineComment) {
+          ravTokens.push({ text: ")" });
+        } else {
+          ravTokens[ravTokens.length - 1] = { ...last, text: last.text + ")" };
+        }
+
+        tokens.push(...ravTokens);
+        interrupted = true;
+        newLine = true;
       });
     }
   });
 
-  return parts.join(" ");
+  return tokens;
+}
+
+/**
+ * Formats a comment as a movetext token
+ */
+function formatCommentToken(comment: MoveComment): Token {
+  const text = formatComment(comment);
+  return { text, lineComment: text.startsWith(";") };
+}
+
+/**
+ * Lays movetext tokens out on lines, starting a line for every variation
+ * when indenting and wrapping lines at the maximum length
+ */
+function layoutMovetext(
+  tokens: Array<Token>,
+  options: FormatOptions
+): Array<string> {
+  const maxLength = options.maxLineLength || 0;
+  const lines: Array<string> = [];
+  let line = "";
+  let prefix = "";
+
+  const endLine = () => {
+    if (line) lines.push(line);
+    line = "";
+  };
+
+  for (const token of tokens) {
+    if (options.indent !== undefined && token.level !== undefined) {
+      endLine();
+      prefix = options.indent.repeat(token.level);
+    }
+
+    // comments may be broken into lines between words, rest-of-line comments may not
+    const words = token.lineComment ? [token.text] : token.text.split(" ");
+    for (const word of words) {
+      if (!line) {
+        line = prefix + word;
+      } else if (maxLength && line.length + 1 + word.length > maxLength) {
+        endLine();
+        line = prefix + word;
+      } else {
+        line += " " + word;
+      }
+    }
+
+    if (token.lineComment) {
+      endLine();
+    }
+  }
+  endLine();
+
+  return lines;
 }